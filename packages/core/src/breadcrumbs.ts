@@ -0,0 +1,69 @@
+import { Breadcrumb } from '@senmu/types';
+
+/**
+ * 固定容量的用户行为记录环形缓冲区，写满后覆盖最旧的记录
+ */
+export class BreadcrumbBuffer {
+  private items: Breadcrumb[];
+  private capacity: number;
+  // 下一条记录的写入位置
+  private head: number;
+  private count: number;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(0, Math.floor(capacity));
+    this.items = [];
+    this.head = 0;
+    this.count = 0;
+  }
+
+  /**
+   * 追加一条记录
+   */
+  push(breadcrumb: Breadcrumb) {
+    if (this.capacity === 0) {
+      return;
+    }
+    this.items[this.head] = breadcrumb;
+    this.head = (this.head + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  /**
+   * 按时间从旧到新返回所有记录
+   */
+  toArray(): Breadcrumb[] {
+    const start = (this.head - this.count + this.capacity) % (this.capacity || 1);
+    const result: Breadcrumb[] = [];
+    for (let i = 0; i < this.count; i++) {
+      result.push(this.items[(start + i) % this.capacity]);
+    }
+    return result;
+  }
+
+  /**
+   * 调整容量，保留最新的记录
+   */
+  setCapacity(capacity: number) {
+    const items = this.toArray();
+    this.capacity = Math.max(0, Math.floor(capacity));
+    this.clear();
+    items.slice(Math.max(0, items.length - this.capacity)).forEach(item => this.push(item));
+  }
+
+  /**
+   * 清空记录
+   */
+  clear() {
+    this.items = [];
+    this.head = 0;
+    this.count = 0;
+  }
+
+  /**
+   * 当前记录条数
+   */
+  get size(): number {
+    return this.count;
+  }
+}
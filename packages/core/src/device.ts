@@ -0,0 +1,260 @@
+import { DeviceInfo } from '@senmu/types';
+
+/**
+ * UA-CH 品牌信息
+ */
+interface UABrand {
+  brand: string;
+  version: string;
+}
+
+/**
+ * navigator.userAgentData（User-Agent Client Hints）
+ */
+interface UADataLike {
+  brands?: UABrand[];
+  mobile?: boolean;
+  platform?: string;
+  getHighEntropyValues?: (hints: string[]) => Promise<{
+    platformVersion?: string;
+    model?: string;
+    fullVersionList?: UABrand[];
+  }>;
+}
+
+// 按顺序匹配，越具体的规则越靠前
+const BROWSER_RULES: Array<[string, RegExp]> = [
+  ['Edge', /Edg(?:e|A|iOS)?\/([\d.]+)/],
+  ['Opera', /(?:OPR|Opera)\/([\d.]+)/],
+  ['Samsung Internet', /SamsungBrowser\/([\d.]+)/],
+  ['WeChat', /MicroMessenger\/([\d.]+)/],
+  ['UC Browser', /UCBrowser\/([\d.]+)/],
+  ['Firefox', /(?:Firefox|FxiOS)\/([\d.]+)/],
+  ['Chrome', /(?:Chrome|CriOS)\/([\d.]+)/],
+  ['Safari', /Version\/([\d.]+).*Safari/],
+  ['IE', /(?:MSIE |Trident\/.*rv:)([\d.]+)/]
+];
+
+const WINDOWS_VERSIONS: Record<string, string> = {
+  '10.0': '10',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7',
+  '6.0': 'Vista',
+  '5.1': 'XP'
+};
+
+/**
+ * 解析 User-Agent 字符串
+ */
+export function parseUserAgent(ua: string): DeviceInfo {
+  const info: DeviceInfo = {};
+
+  // 操作系统
+  let match: RegExpMatchArray | null;
+  if ((match = ua.match(/HarmonyOS[ /]?([\d.]+)?/))) {
+    info.os = 'HarmonyOS';
+    info.osVersion = match[1];
+  } else if ((match = ua.match(/Windows NT ([\d.]+)/))) {
+    info.os = 'Windows';
+    info.osVersion = WINDOWS_VERSIONS[match[1]] || match[1];
+  } else if ((match = ua.match(/(?:iPhone|iPad|iPod).*? OS ([\d_]+)/))) {
+    info.os = 'iOS';
+    info.osVersion = match[1].replace(/_/g, '.');
+  } else if ((match = ua.match(/Android ([\d.]+)/))) {
+    info.os = 'Android';
+    info.osVersion = match[1];
+  } else if ((match = ua.match(/Mac OS X ([\d_.]+)/))) {
+    info.os = 'macOS';
+    info.osVersion = match[1].replace(/_/g, '.');
+  } else if (/CrOS/.test(ua)) {
+    info.os = 'Chrome OS';
+  } else if (/Linux/.test(ua)) {
+    info.os = 'Linux';
+  }
+
+  // 浏览器
+  for (const [name, reg] of BROWSER_RULES) {
+    if ((match = ua.match(reg))) {
+      info.browser = name;
+      info.browserVersion = match[1];
+      break;
+    }
+  }
+
+  // 设备类型与型号
+  if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) {
+    info.device = 'tablet';
+  } else if (/Mobi|iPhone|iPod|Android/.test(ua)) {
+    info.device = 'mobile';
+  } else {
+    info.device = 'desktop';
+  }
+
+  if ((match = ua.match(/(iPhone|iPad|iPod)/))) {
+    info.deviceModel = match[1];
+  } else if ((match = ua.match(/Android [\d.]+; (?:[a-z]{2}[-_][a-z]{2}; )?([^;)]+?)(?: Build\/|\))/i))) {
+    // Android 10 之后 UA 中的型号统一为 K，此时型号不可信
+    info.deviceModel = match[1] === 'K' ? undefined : match[1].trim();
+  }
+
+  return info;
+}
+
+/**
+ * 解析 UA-CH 低熵信息（同步可用）
+ */
+export function parseClientHints(data: UADataLike): DeviceInfo {
+  const info: DeviceInfo = {};
+
+  if (data.platform) {
+    info.os = data.platform;
+  }
+
+  const brand = pickBrand(data.brands);
+  if (brand) {
+    info.browser = normalizeBrand(brand.brand);
+    info.browserVersion = brand.version;
+  }
+
+  if (data.mobile) {
+    info.device = 'mobile';
+  }
+
+  return info;
+}
+
+/**
+ * 采集当前运行环境的设备信息（同步）
+ */
+export function detectDevice(): DeviceInfo {
+  if (typeof navigator === 'undefined') {
+    return {};
+  }
+
+  const info: DeviceInfo = parseUserAgent(navigator.userAgent || '');
+  const uaData = (navigator as Navigator & { userAgentData?: UADataLike }).userAgentData;
+  if (uaData) {
+    const hints = parseClientHints(uaData);
+    // UA-CH 提供的品牌更准确，但 UA 中的版本号更完整，版本以 UA 为准
+    Object.assign(info, hints, {
+      osVersion: info.os === hints.os ? info.osVersion : undefined,
+      browserVersion: info.browser === hints.browser && info.browserVersion ? info.browserVersion : hints.browserVersion,
+      device: hints.device || info.device
+    });
+  }
+
+  if (typeof window !== 'undefined') {
+    if (window.screen?.width) {
+      info.screenWidth = window.screen.width;
+      info.screenHeight = window.screen.height;
+    }
+    if (window.devicePixelRatio) {
+      info.dpr = window.devicePixelRatio;
+    }
+  }
+
+  if (navigator.language) {
+    info.language = navigator.language;
+  }
+
+  try {
+    info.timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch (err) {
+    // 部分旧浏览器不支持 Intl
+  }
+
+  return removeEmpty(info);
+}
+
+/**
+ * 设备信息检测器：同步采集一次，支持 UA-CH 时再异步补充高熵信息
+ */
+export class DeviceDetector {
+  private info: DeviceInfo;
+  // 异步补充完成的 Promise
+  readonly ready: Promise<void>;
+
+  constructor() {
+    this.info = detectDevice();
+    this.ready = this.refineWithClientHints();
+  }
+
+  /**
+   * 获取设备信息
+   */
+  getInfo(): DeviceInfo {
+    return { ...this.info };
+  }
+
+  /**
+   * 通过 UA-CH 高熵接口补充系统版本、设备型号与完整浏览器版本
+   * @private
+   */
+  private refineWithClientHints(): Promise<void> {
+    const uaData = typeof navigator !== 'undefined'
+      ? (navigator as Navigator & { userAgentData?: UADataLike }).userAgentData
+      : undefined;
+    if (!uaData?.getHighEntropyValues) {
+      return Promise.resolve();
+    }
+
+    return uaData.getHighEntropyValues(['platformVersion', 'model', 'fullVersionList']).then(values => {
+      const refined: DeviceInfo = {};
+
+      if (values.platformVersion) {
+        refined.osVersion = this.info.os === 'Windows'
+          ? getWindowsVersion(values.platformVersion)
+          : values.platformVersion;
+      }
+      if (values.model) {
+        refined.deviceModel = values.model;
+      }
+      const brand = pickBrand(values.fullVersionList);
+      if (brand && normalizeBrand(brand.brand) === this.info.browser) {
+        refined.browserVersion = brand.version;
+      }
+
+      this.info = { ...this.info, ...refined };
+    }).catch(() => {
+      // 高熵信息需要权限或被策略禁用时忽略
+    });
+  }
+}
+
+/**
+ * 从品牌列表中选出真实的浏览器品牌（忽略 Not A Brand 等干扰项，Chromium 作为兜底）
+ */
+function pickBrand(brands?: UABrand[]): UABrand | undefined {
+  if (!brands || brands.length === 0) {
+    return undefined;
+  }
+  const real = brands.filter(item => !/not.?a.?brand/i.test(item.brand));
+  return real.find(item => item.brand !== 'Chromium') || real[0];
+}
+
+function normalizeBrand(brand: string): string {
+  if (brand === 'Google Chrome') return 'Chrome';
+  if (brand === 'Microsoft Edge') return 'Edge';
+  return brand;
+}
+
+/**
+ * Windows 的 UA-CH 平台版本 13 及以上为 Windows 11
+ */
+function getWindowsVersion(platformVersion: string): string {
+  const major = parseInt(platformVersion, 10);
+  if (major >= 13) return '11';
+  if (major > 0) return '10';
+  return platformVersion;
+}
+
+function removeEmpty(info: DeviceInfo): DeviceInfo {
+  const result: DeviceInfo = {};
+  (Object.keys(info) as Array<keyof DeviceInfo>).forEach(key => {
+    if (info[key] !== undefined && info[key] !== '') {
+      (result as Record<string, unknown>)[key] = info[key];
+    }
+  });
+  return result;
+}
@@ -1,10 +1,28 @@
 import {
   MoniterConfig,
   MetricData,
+  MetricType,
+  JSErrorMetric,
   Plugin,
   Reporter,
-  ITracker
+  ITracker,
+  MetricProcessor,
+  ProcessorOptions,
+  Breadcrumb,
+  BreadcrumbInput,
+  UserInfo,
+  SessionInfo,
+  AddErrorOptions,
+  ReportFailure
 } from '@senmu/types';
+import { MetricStorage, CacheLeaseRegistry, CACHE_LEASE_DURATION, createMetricStorage } from './storage';
+import { ProcessorChain } from './processor';
+import { BreadcrumbBuffer } from './breadcrumbs';
+import { Scope } from './scope';
+import { DeviceDetector } from './device';
+import { SessionManager, generateId } from './session';
+import { shouldSample } from './sampling';
+import { RateLimiter, Deduplicator, getFingerprint } from './rate-limit';
 
 /**
  * 默认配置
@@ -13,9 +31,15 @@ const DEFAULT_CONFIG: Partial<MoniterConfig> = {
   sampleRate: 1.0,
   debug: false,
   maxCache: 50,
+  maxBreadcrumbs: 20,
   reportImmediately: false
 };
 
+/**
+ * 代表用户活跃、会延长会话的行为记录类型
+ */
+const SESSION_ACTIVITY_BREADCRUMBS = ['click', 'input', 'navigation'];
+
 /**
  * 核心追踪器类
  */
@@ -24,13 +48,76 @@ export class Tracker implements ITracker {
   private plugins: Map<string, Plugin>;
   private reporter!: Reporter;
   private metricCache: MetricData[];
-  private sessionId: string;
+  // 已交给上报器但尚未确认送达的批次
+  private inflightBatches: Set<MetricData[]>;
+  private storage: MetricStorage | null;
+  // 本实例的离线缓存持有者标识，每个标签页的数据保存在各自的键下
+  private cacheOwner: string;
+  private cacheLeases: CacheLeaseRegistry;
+  private cachePending: boolean;
+  private cacheHidden: boolean;
+  private leaseTimer: ReturnType<typeof setInterval> | null;
+  private restoring: Promise<void>;
+  private processors: ProcessorChain;
+  private breadcrumbs: BreadcrumbBuffer;
+  private scope: Scope;
+  private deviceDetector: DeviceDetector;
+  private session: SessionManager;
+  private rateLimiter: RateLimiter;
+  private deduplicator: Deduplicator;
+  private boundPageHide: () => void;
+  private boundPageShow: (event: PageTransitionEvent) => void;
 
   constructor(config: MoniterConfig) {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.plugins = new Map();
     this.metricCache = [];
-    this.sessionId = this.generateSessionId();
+    this.inflightBatches = new Set();
+    this.cacheOwner = generateId();
+    this.cacheLeases = new CacheLeaseRegistry(`${this.getStorageKey()}:cache-owners`);
+    this.cachePending = false;
+    this.cacheHidden = false;
+    this.leaseTimer = null;
+    this.storage = this.config.persistCache
+      ? createMetricStorage(this.getCacheKey(this.cacheOwner))
+      : null;
+    this.restoring = this.restoreCache();
+    if (this.storage) {
+      // 有未上报的数据时定期续约，防止被其他标签页当作已关闭页面的数据认领
+      this.leaseTimer = setInterval(() => {
+        if (this.cachePending && !this.cacheHidden) {
+          this.cacheLeases.renew(this.cacheOwner);
+        }
+      }, CACHE_LEASE_DURATION / 3);
+    }
+    this.processors = new ProcessorChain();
+    this.breadcrumbs = new BreadcrumbBuffer(this.config.maxBreadcrumbs ?? 20);
+    this.deviceDetector = new DeviceDetector();
+    this.rateLimiter = new RateLimiter(() => this.config.rateLimit);
+    this.deduplicator = new Deduplicator(
+      () => this.config.rateLimit,
+      (metric, reportNow) => this.processAndEnqueue([metric], reportNow)
+    );
+    this.scope = new Scope(this.config.persistScope ? `${this.getStorageKey()}:scope` : null);
+    this.session = new SessionManager(`${this.getStorageKey()}:session`, this.config.session || {}, {
+      onStart: session => this.handleSessionStart(session),
+      onEnd: session => this.handleSessionEnd(session)
+    });
+    this.session.resume();
+    // 多数会话以关闭标签页结束，页面隐藏时上报一次会话的最新状态
+    this.boundPageHide = () => {
+      this.handleSessionUpdate();
+      this.releaseCacheLease();
+    };
+    this.boundPageShow = event => {
+      if (event.persisted) {
+        this.resumeCacheLease();
+      }
+    };
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.boundPageHide);
+      window.addEventListener('pageshow', this.boundPageShow);
+    }
     
     if (this.config.debug) {
       console.log('[web-moniter] 初始化追踪器', this.config);
@@ -70,8 +157,8 @@ export class Tracker implements ITracker {
    */
   setReporter(reporter: Reporter): Tracker {
     this.reporter = reporter;
-    if (this.config.reportUrl) {
-      reporter.setConfig({ reportUrl: this.config.reportUrl });
+    if (this.config.reportUrl || this.config.routes) {
+      reporter.setConfig({ reportUrl: this.config.reportUrl, routes: this.config.routes });
     }
     return this;
   }
@@ -81,8 +168,14 @@ export class Tracker implements ITracker {
    */
   setConfig(config: Partial<MoniterConfig>): Tracker {
     this.config = { ...this.config, ...config };
-    if (this.reporter && config.reportUrl) {
-      this.reporter.setConfig({ reportUrl: config.reportUrl });
+    if (config.session) {
+      this.session.setOptions(this.config.session!);
+    }
+    if (config.maxBreadcrumbs !== undefined) {
+      this.breadcrumbs.setCapacity(config.maxBreadcrumbs);
+    }
+    if (this.reporter && (config.reportUrl || config.routes)) {
+      this.reporter.setConfig({ reportUrl: this.config.reportUrl, routes: this.config.routes });
     }
     return this;
   }
@@ -95,75 +188,234 @@ export class Tracker implements ITracker {
   }
 
   /**
-   * 添加错误
+   * 添加错误，转换为 JS 错误指标后立即上报
    */
-  addError(err: Error, opts?: { category?: string; level?: string }) {
-    // 在真实实现中，这里会处理错误并传递给插件或上报
-    console.error('[web-moniter] 错误:', err, opts);
+  addError(err: Error, opts?: AddErrorOptions) {
+    // 兼容 JS 调用方传入字符串等非 Error 值
+    const error = err instanceof Error ? err : new Error(String(err));
+
+    const errorMetric: JSErrorMetric = {
+      type: MetricType.JS_ERROR,
+      message: error.message,
+      name: error.name || 'Error',
+      stack: error.stack || this.captureStack(),
+      errorType: 'manual',
+      level: opts?.level || 'error',
+      category: opts?.category,
+      timestamp: Date.now(),
+      project: this.config.project,
+      pageUrl: window?.location?.href
+    };
+    if (opts?.tags) {
+      errorMetric.tags = opts.tags;
+    }
+    if (opts?.contexts) {
+      errorMetric.contexts = opts.contexts;
+    }
+
+    if (this.config.debug) {
+      console.log('[web-moniter] 添加错误', errorMetric);
+    }
+
+    this.send(errorMetric, true);
   }
 
   /**
-   * 发送指标数据
+   * 添加用户行为记录
    */
-  send(metric: MetricData | MetricData[], reportNow = false) {
-    if (!this.shouldSample()) {
-      return;
+  addBreadcrumb(breadcrumb: BreadcrumbInput) {
+    let crumb: Breadcrumb = {
+      ...breadcrumb,
+      level: breadcrumb.level || 'info',
+      timestamp: breadcrumb.timestamp || Date.now()
+    };
+
+    if (typeof this.config.beforeBreadcrumb === 'function') {
+      try {
+        const result = this.config.beforeBreadcrumb(crumb);
+        if (result === null) {
+          return;
+        }
+        if (result) {
+          crumb = result;
+        }
+      } catch (err) {
+        console.error('[web-moniter] 执行beforeBreadcrumb回调失败:', err);
+      }
+    }
+
+    this.breadcrumbs.push(crumb);
+    // 只有用户操作才延长会话，请求、控制台等 SDK 自动记录的行为不算活跃
+    if (SESSION_ACTIVITY_BREADCRUMBS.includes(crumb.type)) {
+      this.session.touch();
     }
+  }
+
+  /**
+   * 获取当前缓存的用户行为记录（按时间从旧到新）
+   */
+  getBreadcrumbs(): Breadcrumb[] {
+    return this.breadcrumbs.toArray();
+  }
+
+  /**
+   * 清空用户行为记录
+   */
+  clearBreadcrumbs() {
+    this.breadcrumbs.clear();
+  }
+
+  /**
+   * 设置当前用户，传 null 清除（如退出登录）
+   */
+  setUser(user: UserInfo | null): Tracker {
+    this.scope.setUser(user);
+    return this;
+  }
+
+  /**
+   * 设置单个全局标签，值为 undefined 时移除
+   */
+  setTag(key: string, value: any): Tracker {
+    this.scope.setTag(key, value);
+    return this;
+  }
+
+  /**
+   * 批量设置全局标签
+   */
+  setTags(tags: Record<string, any>): Tracker {
+    this.scope.setTags(tags);
+    return this;
+  }
+
+  /**
+   * 设置命名上下文，传 null 移除
+   */
+  setContext(name: string, context: Record<string, any> | null): Tracker {
+    this.scope.setContext(name, context);
+    return this;
+  }
+
+  /**
+   * 清除用户、标签与上下文
+   */
+  clearScope(): Tracker {
+    this.scope.clear();
+    return this;
+  }
+
+  /**
+   * 获取当前会话信息
+   */
+  getSession(): SessionInfo {
+    return this.session.getSession();
+  }
+
+  /**
+   * 记录一次用户活跃，延长会话，由 SDK 的公开接口在调用方主动上报时调用
+   */
+  touchSession(): SessionInfo {
+    return this.session.touch();
+  }
 
+  /**
+   * 发送指标数据
+   */
+  send(metric: MetricData | MetricData[], reportNow = false) {
     const metrics = Array.isArray(metric) ? metric : [metric];
+
+    // 页面访问属于用户活跃，其余由 SDK 自动产生的数据（轮询接口、性能等）不延长会话，避免会话永不过期
+    const session = metrics.some(m => m.type === MetricType.PV)
+      ? this.session.touch()
+      : this.session.getSession();
+    // 会话计数在采样前进行，保证无崩溃会话率不受采样影响
+    metrics.forEach(m => {
+      if (m.type === MetricType.JS_ERROR) {
+        this.session.recordError();
+      } else if (m.type === MetricType.PV) {
+        this.session.recordPageView();
+      }
+    });
+
+    const device = { ...this.deviceDetector.getInfo(), ...this.config.deviceInfo };
     
-    // 添加基本信息
+    // 添加基本信息与用户、标签、上下文，错误数据附带发生前的用户行为记录
+    // 补充完成后再采样，以便采样规则匹配全局标签与页面地址，随后去重与限流
     const enrichedMetrics = metrics.map(m => ({
-      ...m,
-      sessionId: this.sessionId,
+      ...this.scope.applyTo(m),
+      sessionId: m.sessionId || session.id,
       timestamp: m.timestamp || Date.now(),
       pageUrl: m.pageUrl || window?.location?.href,
       project: this.config.project,
-      appVersion: this.config.appVersion
-    }));
+      appVersion: this.config.appVersion,
+      device: { ...device, ...m.device },
+      ...(m.type === MetricType.JS_ERROR && !m.breadcrumbs && this.breadcrumbs.size > 0
+        ? { breadcrumbs: this.breadcrumbs.toArray() }
+        : {})
+    }) as MetricData)
+      .filter(m => shouldSample(m, this.config, m.sessionId))
+      .filter(m => this.passRateLimit(m, reportNow));
 
-    // 添加到缓存
-    this.metricCache.push(...enrichedMetrics);
-    
-    // 缓存达到上限或强制上报
-    if (reportNow || this.metricCache.length >= (this.config.maxCache || 50)) {
-      this.flush();
-    }
+    this.processAndEnqueue(enrichedMetrics, reportNow);
+  }
+
+  /**
+   * 注册数据处理器，插件可以借此统一进行脱敏、补充与过滤
+   * @returns 移除该处理器的函数
+   */
+  addProcessor(processor: MetricProcessor, options?: ProcessorOptions): () => void {
+    return this.processors.add(processor, options);
   }
 
   /**
    * 立即上报所有缓存的指标数据
+   * @returns 数据送达后 resolve，失败时 reject（数据已重新加入缓存）
    */
-  flush() {
+  flush(): Promise<void> {
     if (this.metricCache.length === 0 || !this.reporter) {
-      return;
+      return Promise.resolve();
     }
 
     const metricsToSend = [...this.metricCache];
     this.metricCache = [];
+    // 送达前仍保留在持久化快照中，避免页面关闭时丢失
+    this.inflightBatches.add(metricsToSend);
     
+    let sendPromise: Promise<void>;
     try {
-      const sendPromise = this.reporter.send(metricsToSend, true);
-      
-      // 确保 sendPromise 是一个 Promise
-      if (sendPromise && typeof sendPromise.catch === 'function') {
-        sendPromise.catch((err: Error) => {
-          console.error('[web-moniter] 上报数据失败:', err);
-          // 失败时重新加入缓存
-          this.metricCache = [...metricsToSend, ...this.metricCache].slice(0, this.config.maxCache || 50);
-        });
-      }
+      sendPromise = Promise.resolve(this.reporter.send(metricsToSend, true));
     } catch (err) {
-      console.error('[web-moniter] 上报数据失败:', err);
-      // 如果调用出现异常，也重新加入缓存
-      this.metricCache = [...metricsToSend, ...this.metricCache].slice(0, this.config.maxCache || 50);
+      // 如果调用出现异常，按上报失败处理
+      sendPromise = Promise.reject(err);
     }
+
+    return sendPromise.then(() => {
+      this.inflightBatches.delete(metricsToSend);
+      this.persistCache();
+    }, (err: ReportFailure) => {
+      console.error('[web-moniter] 上报数据失败:', err);
+      // 失败时只将未送达的数据重新加入缓存，已送达的部分不再重复上报
+      this.requeue(metricsToSend, Array.isArray(err?.undelivered) ? err.undelivered : metricsToSend);
+      throw err;
+    });
   }
 
   /**
    * 销毁追踪器
    */
   destroy() {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.boundPageHide);
+      window.removeEventListener('pageshow', this.boundPageShow);
+    }
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = null;
+    }
+    // 实例销毁后不再上报剩余数据，交由下一个初始化的实例认领
+    this.releaseCacheLease();
+
     // 销毁所有插件
     for (const [name, plugin] of this.plugins.entries()) {
       try {
@@ -176,8 +428,12 @@ export class Tracker implements ITracker {
     // 清空插件列表
     this.plugins.clear();
     
+    // 输出去重窗口中尚未合并的数据
+    this.deduplicator.flushAll();
+    this.processors.clear();
+    
     // 上报剩余数据
-    this.flush();
+    this.flushSilently();
     
     // 销毁上报器
     if (this.reporter) {
@@ -190,19 +446,308 @@ export class Tracker implements ITracker {
   }
 
   /**
-   * 是否应该采样
+   * 去重与限流，被合并或超出频率的数据返回 false
+   * @private
+   */
+  private passRateLimit(metric: MetricData, reportNow: boolean): boolean {
+    const fingerprint = getFingerprint(metric);
+    if (fingerprint && !this.deduplicator.check(metric, fingerprint, reportNow)) {
+      return false;
+    }
+
+    if (!this.rateLimiter.allow(metric, fingerprint)) {
+      if (this.config.debug) {
+        console.log('[web-moniter] 数据超出频率限制，已丢弃', metric);
+      }
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 经过处理器链，同步结果立即入缓存，异步结果在处理完成后入缓存
+   * @private
+   */
+  private processAndEnqueue(metrics: MetricData[], reportNow: boolean) {
+    const processed: MetricData[] = [];
+    metrics.forEach(m => {
+      const result = this.processors.run(m, this.config);
+      if (result instanceof Promise) {
+        result.then(asyncResult => {
+          if (asyncResult) {
+            this.enqueue([asyncResult], reportNow);
+          }
+        });
+      } else if (result) {
+        processed.push(result);
+      }
+    });
+
+    if (processed.length > 0) {
+      this.enqueue(processed, reportNow);
+    }
+  }
+
+  /**
+   * 将处理后的数据加入缓存，按需触发上报
    * @private
    */
-  private shouldSample(): boolean {
-    return Math.random() < (this.config.sampleRate || 1.0);
+  private enqueue(metrics: MetricData[], reportNow: boolean) {
+    this.metricCache.push(...metrics);
+    
+    // 缓存达到上限或强制上报
+    if (reportNow || this.metricCache.length >= this.getMaxCache()) {
+      this.flushSilently();
+    }
+
+    // 未设置上报器时缓存不会被清空，超出上限丢弃最旧的数据
+    if (this.metricCache.length > this.getMaxCache()) {
+      this.metricCache = this.metricCache.slice(-this.getMaxCache());
+    }
+    this.persistCache();
+  }
+
+  /**
+   * 内部触发的上报，失败已在 flush 中记录并重新缓存，这里不再向外抛出
+   * @private
+   */
+  private flushSilently() {
+    this.flush().catch(() => {});
+  }
+
+  /**
+   * 将上报失败批次中未送达的数据重新加入缓存，超出上限时丢弃最旧的数据
+   * @private
+   */
+  private requeue(batch: MetricData[], undelivered: MetricData[]) {
+    // 批次已随缓存被其他页面认领时不再重新加入
+    if (!this.inflightBatches.delete(batch)) {
+      return;
+    }
+    this.metricCache = this.mergeByTime(undelivered, this.metricCache);
+    this.persistCache();
+  }
+
+  /**
+   * 按发生时间合并两组数据，并只保留最新的 maxCache 条
+   * @private
+   */
+  private mergeByTime(older: MetricData[], newer: MetricData[]): MetricData[] {
+    return [...older, ...newer]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-this.getMaxCache());
+  }
+
+  /**
+   * 持久化存储的键名
+   * @private
+   */
+  private getStorageKey(): string {
+    return this.config.storageKey || `web-moniter:${this.config.project}`;
+  }
+
+  /**
+   * 实例离线缓存的键名
+   * @private
+   */
+  private getCacheKey(owner: string): string {
+    return `${this.getStorageKey()}:cache:${owner}`;
+  }
+
+  /**
+   * 获取缓存上限
+   * @private
+   */
+  private getMaxCache(): number {
+    return this.config.maxCache || 50;
+  }
+
+  /**
+   * 恢复上次未上报的数据，并在设置了上报器时立即补报
+   * @private
+   */
+  private restoreCache(): Promise<void> {
+    if (!this.storage) {
+      return Promise.resolve();
+    }
+
+    // 只认领租约已过期（页面已关闭）的实例数据，仍在运行的标签页由其自己上报
+    // 旧版本所有标签页共用一个快照键，一并认领以完成迁移
+    const claimed = [
+      ...this.cacheLeases.claimExpired(this.cacheOwner).map(owner => this.getCacheKey(owner)),
+      this.getStorageKey()
+    ]
+      .map(key => createMetricStorage(key))
+      .filter((storage): storage is MetricStorage => storage !== null);
+
+    return Promise.all(claimed.map(storage => storage.load().then(metrics => {
+      // 读取后立即删除，避免再被其他实例重复补报
+      return storage.save([]).then(() => metrics);
+    }))).then(results => {
+      const stored = results.reduce<MetricData[]>((all, metrics) => all.concat(metrics), []);
+      if (stored.length === 0) {
+        return;
+      }
+
+      this.metricCache = this.mergeByTime(stored, this.metricCache);
+
+      if (this.config.debug) {
+        console.log(`[web-moniter] 恢复 ${stored.length} 条未上报数据`);
+      }
+
+      this.persistCache();
+      this.flushSilently();
+    }).catch(err => {
+      console.warn('[web-moniter] 恢复缓存数据失败', err);
+    });
+  }
+
+  /**
+   * 将缓存与未送达的批次写入持久化存储
+   * @private
+   */
+  private persistCache() {
+    if (!this.storage) {
+      return;
+    }
+
+    const storage = this.storage;
+    // 等待恢复完成后再写入，避免覆盖尚未读取的数据
+    this.restoring = this.restoring.then(() => {
+      const snapshot: MetricData[] = [];
+      this.inflightBatches.forEach(batch => snapshot.push(...batch));
+      snapshot.push(...this.metricCache);
+      return storage.save(snapshot.slice(-this.getMaxCache())).then(() => {
+        this.cachePending = snapshot.length > 0;
+        if (!this.cachePending) {
+          this.cacheLeases.remove(this.cacheOwner);
+        } else if (this.cacheHidden) {
+          this.cacheLeases.release(this.cacheOwner);
+        } else {
+          this.cacheLeases.renew(this.cacheOwner);
+        }
+      });
+    }).catch(err => {
+      console.warn('[web-moniter] 持久化缓存数据失败', err);
+    });
+  }
+
+  /**
+   * 页面从往返缓存恢复时重新续约
+   * 隐藏期间租约可能已被其他标签页认领并补报，此时丢弃内存中的数据，避免重复上报
+   * @private
+   */
+  private resumeCacheLease() {
+    if (!this.storage) {
+      return;
+    }
+    this.cacheHidden = false;
+    if (!this.cachePending) {
+      return;
+    }
+    if (this.cacheLeases.isHeld(this.cacheOwner)) {
+      this.cacheLeases.renew(this.cacheOwner);
+      return;
+    }
+
+    if (this.config.debug) {
+      console.log('[web-moniter] 未上报数据已由其他页面认领，丢弃本页缓存');
+    }
+    this.metricCache = [];
+    this.inflightBatches.clear();
+    this.persistCache();
+  }
+
+  /**
+   * 页面隐藏时释放租约，页面未再恢复时数据由下一个初始化的实例认领
+   * @private
+   */
+  private releaseCacheLease() {
+    if (!this.storage) {
+      return;
+    }
+    this.cacheHidden = true;
+    if (this.cachePending) {
+      this.cacheLeases.release(this.cacheOwner);
+    }
+  }
+
+  /**
+   * 错误对象没有堆栈时，记录调用 addError 处的堆栈
+   * @private
+   */
+  private captureStack(): string | undefined {
+    const stack = new Error().stack;
+    if (!stack) {
+      return undefined;
+    }
+    // 去掉 SDK 内部的 captureStack、addError 两层调用，V8 的堆栈首行还带有错误信息
+    const lines = stack.split('\n');
+    const skip = /^\s*at /.test(lines[0]) || lines[0].includes('@') ? 2 : 3;
+    return lines.slice(skip).join('\n') || undefined;
+  }
+
+  /**
+   * 新会话开始
+   * @private
+   */
+  private handleSessionStart(session: SessionInfo) {
+    this.config.session?.onSessionStart?.(session);
+
+    if (this.config.session?.report) {
+      this.send({
+        type: MetricType.CUSTOM,
+        name: 'session_start',
+        value: 1,
+        category: 'session',
+        timestamp: session.startTime,
+        project: this.config.project,
+        pageUrl: window?.location?.href
+      });
+    }
+  }
+
+  /**
+   * 会话结束，上报会话内的页面数与错误数用于计算无崩溃会话率
+   * @private
+   */
+  private handleSessionEnd(session: SessionInfo) {
+    this.config.session?.onSessionEnd?.(session);
+
+    if (this.config.session?.report) {
+      this.send(this.createSessionMetric('session_end', session));
+    }
+  }
+
+  /**
+   * 页面隐藏时立即上报会话的最新状态，标签页关闭后会话不会再触发结束
+   * @private
+   */
+  private handleSessionUpdate() {
+    if (this.config.session?.report) {
+      this.send(this.createSessionMetric('session_update', this.session.getSession()), true);
+    }
   }
 
   /**
-   * 生成会话ID
+   * 创建会话状态指标，值为会话持续时间
    * @private
    */
-  private generateSessionId(): string {
-    return Date.now().toString(36) + Math.random().toString(36).substring(2);
+  private createSessionMetric(name: string, session: SessionInfo): MetricData {
+    return {
+      type: MetricType.CUSTOM,
+      name,
+      value: session.lastActivity - session.startTime,
+      category: 'session',
+      timestamp: session.lastActivity,
+      project: this.config.project,
+      pageUrl: window?.location?.href,
+      sessionId: session.id,
+      tags: {
+        pageCount: session.pageCount,
+        errorCount: session.errorCount
+      }
+    };
   }
 }
 
@@ -211,4 +756,20 @@ export class Tracker implements ITracker {
  */
 export function createTracker(config: MoniterConfig): Tracker {
   return Tracker.init(config);
-}
\ No newline at end of file
+}
+
+export type { MetricStorage } from './storage';
+export { ProcessorChain } from './processor';
+export { BreadcrumbBuffer } from './breadcrumbs';
+export type { ScopeData } from './scope';
+export { DeviceDetector, detectDevice, parseUserAgent, parseClientHints } from './device';
+export { SessionManager } from './session';
+export { shouldSample, getSampleRate, matchesRule } from './sampling';
+export { TokenBucket, RateLimiter, Deduplicator, getFingerprint } from './rate-limit';
+export { Scope } from './scope';
+export {
+  LocalStorageMetricStorage,
+  IndexedDBMetricStorage,
+  CacheLeaseRegistry,
+  createMetricStorage
+} from './storage';
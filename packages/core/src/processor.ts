@@ -0,0 +1,152 @@
+import {
+  MetricData,
+  MetricProcessor,
+  MoniterConfig,
+  ProcessorOptions,
+  ProcessorRegistration
+} from '@senmu/types';
+
+/**
+ * 已注册的处理器
+ */
+export interface ProcessorEntry extends ProcessorRegistration {
+  // 注册顺序，优先级相同时先注册的先执行
+  order: number;
+}
+
+/**
+ * 配置中与处理器相关的字段
+ */
+type ProcessorConfig = Pick<MoniterConfig, 'processors' | 'beforeSend'>;
+
+/**
+ * 处理结果：同步处理器保持同步返回，出现异步处理器时返回 Promise
+ */
+export type ProcessResult = MetricData | null | Promise<MetricData | null>;
+
+// 配置中的 beforeSend 始终最后执行
+const BEFORE_SEND_PRIORITY = -Infinity;
+
+/**
+ * 数据处理器链
+ */
+export class ProcessorChain {
+  private entries: ProcessorEntry[] = [];
+  private order = 0;
+
+  /**
+   * 注册处理器，返回用于移除该处理器的函数
+   */
+  add(process: MetricProcessor, options: ProcessorOptions = {}): () => void {
+    const entry: ProcessorEntry = {
+      process,
+      name: options.name,
+      priority: options.priority ?? 0,
+      order: this.order++
+    };
+    this.entries.push(entry);
+
+    return () => {
+      this.entries = this.entries.filter(item => item !== entry);
+    };
+  }
+
+  /**
+   * 清空已注册的处理器
+   */
+  clear() {
+    this.entries = [];
+  }
+
+  /**
+   * 依次执行已注册的处理器与配置中的处理器
+   * @param config 配置中的 processors 与 beforeSend
+   */
+  run(metric: MetricData, config: ProcessorConfig = {}): ProcessResult {
+    const entries = this.resolveEntries(config);
+    return entries.length === 0 ? metric : runEntries(metric, entries, 0);
+  }
+
+  /**
+   * 合并配置中的处理器并按优先级排序
+   * @private
+   */
+  private resolveEntries(config: ProcessorConfig): ProcessorEntry[] {
+    const entries = [...this.entries];
+    let order = this.order;
+
+    (config.processors || []).forEach(item => {
+      const registration = typeof item === 'function' ? { process: item } : item;
+      entries.push({ ...registration, priority: registration.priority ?? 0, order: order++ });
+    });
+
+    if (typeof config.beforeSend === 'function') {
+      entries.push({ process: config.beforeSend, name: 'beforeSend', priority: BEFORE_SEND_PRIORITY, order: order++ });
+    }
+
+    return entries.sort((a, b) => (b.priority! - a.priority!) || (a.order - b.order));
+  }
+}
+
+/**
+ * 从第 index 个处理器开始执行，遇到异步结果时转为 Promise 链
+ */
+function runEntries(metric: MetricData, entries: ProcessorEntry[], index: number): ProcessResult {
+  let current = metric;
+
+  for (let i = index; i < entries.length; i++) {
+    const entry = entries[i];
+    let result: ReturnType<MetricProcessor>;
+
+    try {
+      result = entry.process(current);
+    } catch (err) {
+      // 处理器异常时跳过该处理器，不影响数据上报
+      console.error(`[web-moniter] 执行数据处理器失败: ${entry.name || 'anonymous'}`, err);
+      continue;
+    }
+
+    if (isPromiseLike(result)) {
+      const before = current;
+      return Promise.resolve(result).then(
+        resolved => {
+          const next = normalizeResult(resolved, before);
+          return next === null ? null : runEntries(next, entries, i + 1);
+        },
+        err => {
+          console.error(`[web-moniter] 执行数据处理器失败: ${entry.name || 'anonymous'}`, err);
+          return runEntries(before, entries, i + 1);
+        }
+      );
+    }
+
+    const next = normalizeResult(result, current);
+    if (next === null) {
+      return null;
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * null 表示丢弃，undefined 表示保留原数据
+ */
+function normalizeResult(result: MetricData | null | undefined | void, current: MetricData): MetricData | null {
+  if (result === null) {
+    return null;
+  }
+  if (result === undefined) {
+    return current;
+  }
+  if (typeof result !== 'object') {
+    console.warn('[web-moniter] 数据处理器返回类型错误，应该返回指标数据、null 或 undefined');
+    return current;
+  }
+  return result;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<any> {
+  return !!value && typeof (value as PromiseLike<any>).then === 'function';
+}
@@ -0,0 +1,193 @@
+import { MetricData, MetricType, RateLimitOptions, TokenBucketOptions } from '@senmu/types';
+
+const DEFAULT_TYPE_BUCKET: TokenBucketOptions = { capacity: 100, refillRate: 10 };
+const DEFAULT_FINGERPRINT_BUCKET: TokenBucketOptions = { capacity: 10, refillRate: 1 };
+const DEFAULT_DEDUPE_WINDOW = 1000;
+// 令牌桶的最大数量，超出时淘汰最早创建的
+const MAX_BUCKETS = 500;
+
+/**
+ * 令牌桶
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private options: TokenBucketOptions;
+
+  constructor(options: TokenBucketOptions, now = Date.now()) {
+    this.options = options;
+    this.tokens = options.capacity;
+    this.lastRefill = now;
+  }
+
+  /**
+   * 尝试取出一个令牌
+   */
+  tryRemove(now = Date.now()): boolean {
+    const elapsed = Math.max(0, now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.options.capacity, this.tokens + elapsed * this.options.refillRate);
+    this.lastRefill = now;
+
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+/**
+ * 计算数据指纹，只有错误、接口与资源数据有指纹，性能、PV 等数据本身就是重复采集的
+ * 错误数据优先使用插件计算的 fingerprint
+ */
+export function getFingerprint(metric: MetricData): string | undefined {
+  switch (metric.type) {
+    case MetricType.JS_ERROR:
+      if (metric.fingerprint) {
+        return `${metric.type}|${metric.fingerprint}`;
+      }
+      return [metric.type, metric.errorType, metric.name, metric.message, metric.filename, metric.lineno, metric.colno].join('|');
+    case MetricType.API:
+      return [metric.type, metric.method, metric.url, metric.status, metric.success].join('|');
+    case MetricType.RESOURCE:
+      return [metric.type, metric.url, metric.success].join('|');
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 基于令牌桶的限流器：按类型与指纹分别限流
+ */
+export class RateLimiter {
+  private getOptions: () => RateLimitOptions | false | undefined;
+  private typeBuckets: Map<string, TokenBucket> = new Map();
+  private fingerprintBuckets: Map<string, TokenBucket> = new Map();
+
+  constructor(getOptions: () => RateLimitOptions | false | undefined) {
+    this.getOptions = getOptions;
+  }
+
+  /**
+   * 是否允许通过
+   */
+  allow(metric: MetricData, fingerprint?: string): boolean {
+    const options = this.getOptions();
+    if (options === false) {
+      return true;
+    }
+
+    const now = Date.now();
+    const typeOptions = options?.types?.[metric.type] || options?.types?.['*'] || DEFAULT_TYPE_BUCKET;
+    if (!this.getBucket(this.typeBuckets, metric.type, typeOptions, now).tryRemove(now)) {
+      return false;
+    }
+
+    if (fingerprint) {
+      const fingerprintOptions = options?.fingerprint || DEFAULT_FINGERPRINT_BUCKET;
+      if (!this.getBucket(this.fingerprintBuckets, fingerprint, fingerprintOptions, now).tryRemove(now)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 获取或创建令牌桶
+   * @private
+   */
+  private getBucket(buckets: Map<string, TokenBucket>, key: string, options: TokenBucketOptions, now: number): TokenBucket {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      if (buckets.size >= MAX_BUCKETS) {
+        buckets.delete(buckets.keys().next().value!);
+      }
+      bucket = new TokenBucket(options, now);
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+}
+
+/**
+ * 去重窗口内的重复记录
+ */
+interface DedupeEntry {
+  // 被合并的重复次数
+  count: number;
+  // 最近一次重复的数据
+  last?: MetricData;
+  reportNow: boolean;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * 去重器：窗口内相同指纹的数据只放行首条，窗口结束时将其余重复合并为一条带 count 的数据
+ */
+export class Deduplicator {
+  private getWindow: () => number;
+  private onMerged: (metric: MetricData, reportNow: boolean) => void;
+  private entries: Map<string, DedupeEntry> = new Map();
+
+  constructor(
+    getOptions: () => RateLimitOptions | false | undefined,
+    onMerged: (metric: MetricData, reportNow: boolean) => void
+  ) {
+    this.getWindow = () => {
+      const options = getOptions();
+      return options === false ? 0 : options?.dedupeWindow ?? DEFAULT_DEDUPE_WINDOW;
+    };
+    this.onMerged = onMerged;
+  }
+
+  /**
+   * 是否为窗口内的首条数据，重复数据会被暂存并返回 false
+   */
+  check(metric: MetricData, fingerprint: string, reportNow: boolean): boolean {
+    const window = this.getWindow();
+    if (window <= 0) {
+      return true;
+    }
+
+    const entry = this.entries.get(fingerprint);
+    if (entry) {
+      entry.count++;
+      entry.last = metric;
+      entry.reportNow = entry.reportNow || reportNow;
+      return false;
+    }
+
+    this.entries.set(fingerprint, {
+      count: 0,
+      reportNow,
+      timer: setTimeout(() => this.release(fingerprint), window)
+    });
+    return true;
+  }
+
+  /**
+   * 立即结束所有窗口，输出合并后的数据
+   */
+  flushAll() {
+    Array.from(this.entries.keys()).forEach(fingerprint => this.release(fingerprint));
+  }
+
+  /**
+   * 结束窗口
+   * @private
+   */
+  private release(fingerprint: string) {
+    const entry = this.entries.get(fingerprint);
+    if (!entry) {
+      return;
+    }
+
+    clearTimeout(entry.timer);
+    this.entries.delete(fingerprint);
+
+    if (entry.count > 0 && entry.last) {
+      this.onMerged({ ...entry.last, count: entry.count }, entry.reportNow);
+    }
+  }
+}
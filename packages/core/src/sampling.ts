@@ -0,0 +1,92 @@
+import { MetricData, MoniterConfig, SamplingRule } from '@senmu/types';
+
+/**
+ * 配置中与采样相关的字段
+ */
+type SamplingConfig = Pick<MoniterConfig, 'sampleRate' | 'sampling'>;
+
+/**
+ * 获取指标数据的采样率：规则 > 类型采样率 > 全局采样率
+ */
+export function getSampleRate(metric: MetricData, config: SamplingConfig): number {
+  const rule = config.sampling?.rules?.find(item => matchesRule(metric, item));
+  if (rule) {
+    return rule.rate;
+  }
+
+  const typeRate = config.sampling?.rates?.[metric.type];
+  if (typeRate !== undefined) {
+    return typeRate;
+  }
+
+  return config.sampleRate ?? 1;
+}
+
+/**
+ * 是否命中采样规则
+ */
+export function matchesRule(metric: MetricData, rule: SamplingRule): boolean {
+  if (rule.type !== undefined) {
+    const types = Array.isArray(rule.type) ? rule.type : [rule.type];
+    if (!types.includes(metric.type)) {
+      return false;
+    }
+  }
+
+  if (rule.url !== undefined) {
+    const urls = [metric.pageUrl, (metric as { url?: string }).url].filter(Boolean) as string[];
+    const pattern = rule.url;
+    const matched = urls.some(url => typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url));
+    if (!matched) {
+      return false;
+    }
+  }
+
+  if (rule.tags) {
+    const tags = metric.tags || {};
+    if (!Object.keys(rule.tags).every(key => tags[key] === rule.tags![key])) {
+      return false;
+    }
+  }
+
+  if (rule.predicate) {
+    try {
+      return !!rule.predicate(metric);
+    } catch (err) {
+      console.error('[web-moniter] 执行采样规则失败', err);
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 将字符串稳定地映射到 [0, 1)，用于按会话采样（FNV-1a）
+ */
+export function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * 是否保留该数据
+ * @param sessionId 按会话采样时使用的会话ID
+ */
+export function shouldSample(metric: MetricData, config: SamplingConfig, sessionId?: string): boolean {
+  const rate = getSampleRate(metric, config);
+  if (rate >= 1) {
+    return true;
+  }
+  if (rate <= 0) {
+    return false;
+  }
+
+  // 同一会话得到相同的随机值，采样率越高保留的会话越多，且低采样率保留的会话一定被高采样率保留
+  const random = config.sampling?.sticky && sessionId ? hashToUnit(sessionId) : Math.random();
+  return random < rate;
+}
@@ -0,0 +1,147 @@
+import { MetricData, UserInfo } from '@senmu/types';
+
+/**
+ * 作用域数据快照
+ */
+export interface ScopeData {
+  user: UserInfo | null;
+  tags: Record<string, any>;
+  contexts: Record<string, Record<string, any>>;
+}
+
+/**
+ * 全局作用域：保存用户、标签与上下文，在补充数据时合并到每条数据
+ */
+export class Scope {
+  private user: UserInfo | null = null;
+  private tags: Record<string, any> = {};
+  private contexts: Record<string, Record<string, any>> = {};
+  // 持久化的键名，为空时不持久化
+  private storageKey: string | null;
+
+  constructor(storageKey: string | null = null) {
+    this.storageKey = storageKey;
+    this.restore();
+  }
+
+  setUser(user: UserInfo | null) {
+    this.user = user ? { ...user } : null;
+    this.persist();
+  }
+
+  setTag(key: string, value: any) {
+    if (value === undefined) {
+      delete this.tags[key];
+    } else {
+      this.tags[key] = value;
+    }
+    this.persist();
+  }
+
+  setTags(tags: Record<string, any>) {
+    Object.keys(tags).forEach(key => {
+      if (tags[key] === undefined) {
+        delete this.tags[key];
+      } else {
+        this.tags[key] = tags[key];
+      }
+    });
+    this.persist();
+  }
+
+  setContext(name: string, context: Record<string, any> | null) {
+    if (context === null) {
+      delete this.contexts[name];
+    } else {
+      this.contexts[name] = { ...context };
+    }
+    this.persist();
+  }
+
+  /**
+   * 清除所有数据（同时清除持久化数据）
+   */
+  clear() {
+    this.user = null;
+    this.tags = {};
+    this.contexts = {};
+    this.persist();
+  }
+
+  /**
+   * 获取当前数据快照
+   */
+  getData(): ScopeData {
+    return {
+      user: this.user ? { ...this.user } : null,
+      tags: { ...this.tags },
+      contexts: { ...this.contexts }
+    };
+  }
+
+  /**
+   * 合并到指标数据，数据自身的字段优先
+   */
+  applyTo<T extends MetricData>(metric: T): T {
+    const result: T = { ...metric };
+
+    if (this.user) {
+      result.user = { ...this.user, ...metric.user };
+      if (!result.uid && this.user.id !== undefined) {
+        result.uid = String(this.user.id);
+      }
+    }
+    if (Object.keys(this.tags).length > 0) {
+      result.tags = { ...this.tags, ...metric.tags };
+    }
+    if (Object.keys(this.contexts).length > 0) {
+      result.contexts = { ...this.contexts, ...metric.contexts };
+    }
+
+    return result;
+  }
+
+  /**
+   * 恢复持久化的数据
+   * @private
+   */
+  private restore() {
+    if (!this.storageKey) {
+      return;
+    }
+
+    try {
+      const raw = window.localStorage.getItem(this.storageKey);
+      if (!raw) {
+        return;
+      }
+      const data = JSON.parse(raw) as Partial<ScopeData>;
+      this.user = data.user || null;
+      this.tags = data.tags || {};
+      this.contexts = data.contexts || {};
+    } catch (err) {
+      console.warn('[web-moniter] 读取作用域数据失败', err);
+    }
+  }
+
+  /**
+   * 持久化当前数据，为空时移除
+   * @private
+   */
+  private persist() {
+    if (!this.storageKey) {
+      return;
+    }
+
+    try {
+      const isEmpty = !this.user && Object.keys(this.tags).length === 0 && Object.keys(this.contexts).length === 0;
+      if (isEmpty) {
+        window.localStorage.removeItem(this.storageKey);
+      } else {
+        window.localStorage.setItem(this.storageKey, JSON.stringify(this.getData()));
+      }
+    } catch (err) {
+      console.warn('[web-moniter] 保存作用域数据失败', err);
+    }
+  }
+}
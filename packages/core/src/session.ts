@@ -0,0 +1,205 @@
+import { SessionInfo, SessionOptions } from '@senmu/types';
+
+/**
+ * 会话生命周期回调
+ */
+export interface SessionHooks {
+  onStart: (session: SessionInfo) => void;
+  onEnd: (session: SessionInfo) => void;
+}
+
+// 默认无操作超时时间：30 分钟
+const DEFAULT_TIMEOUT = 30 * 60 * 1000;
+
+/**
+ * 生成唯一ID
+ */
+export function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2);
+}
+
+/**
+ * 会话管理器：持久化会话，在无操作超时或跨天时开始新会话
+ */
+export class SessionManager {
+  private options: SessionOptions;
+  private key: string;
+  private hooks: SessionHooks;
+  private session!: SessionInfo;
+  // 本页面是否已经统计过页面访问数据，首个 PV 对应页面加载本身
+  private pageViewSeen = false;
+
+  constructor(key: string, options: SessionOptions, hooks: SessionHooks) {
+    this.key = key;
+    this.options = options;
+    this.hooks = hooks;
+  }
+
+  /**
+   * 恢复上次的会话或开始新会话，每次页面加载调用一次
+   */
+  resume() {
+    const stored = this.load();
+    const now = Date.now();
+
+    if (stored && !this.isExpired(stored, now)) {
+      this.session = {
+        ...stored,
+        lastActivity: now,
+        pageCount: stored.pageCount + 1
+      };
+      this.save();
+      return;
+    }
+
+    // 上次的会话在页面关闭期间过期，同样需要结束，以便上报其页面数与错误数
+    this.start(now, stored);
+  }
+
+  /**
+   * 获取当前会话，已过期时开始新会话
+   */
+  getSession(): SessionInfo {
+    this.renewIfExpired(Date.now());
+    return { ...this.session };
+  }
+
+  /**
+   * 记录一次用户活跃，延长会话
+   */
+  touch(): SessionInfo {
+    const now = Date.now();
+    this.renewIfExpired(now);
+    this.session.lastActivity = now;
+    this.save();
+    return { ...this.session };
+  }
+
+  /**
+   * 记录一次页面访问
+   */
+  recordPageView() {
+    if (!this.pageViewSeen) {
+      this.pageViewSeen = true;
+      return;
+    }
+    this.session.pageCount++;
+    this.save();
+  }
+
+  /**
+   * 记录一次错误
+   */
+  recordError() {
+    this.session.errorCount++;
+    this.save();
+  }
+
+  /**
+   * 更新配置
+   */
+  setOptions(options: SessionOptions) {
+    this.options = options;
+  }
+
+  /**
+   * 会话是否已过期：无操作超时或已跨天
+   * @private
+   */
+  private isExpired(session: SessionInfo, now: number): boolean {
+    const timeout = this.options.timeout ?? DEFAULT_TIMEOUT;
+    if (now - session.lastActivity > timeout) {
+      return true;
+    }
+    return new Date(session.startTime).toDateString() !== new Date(now).toDateString();
+  }
+
+  /**
+   * 过期时结束当前会话并开始新会话
+   * @private
+   */
+  private renewIfExpired(now: number) {
+    if (!this.isExpired(this.session, now)) {
+      return;
+    }
+
+    this.start(now, { ...this.session });
+  }
+
+  /**
+   * 开始新会话，先结束上一个会话，保证 onEnd 在 onStart 之前触发
+   * 回调执行前新会话已经生效，回调中读取到的是新会话
+   * @private
+   */
+  private start(now: number, ended?: SessionInfo | null) {
+    this.session = {
+      id: generateId(),
+      startTime: now,
+      lastActivity: now,
+      pageCount: 1,
+      errorCount: 0
+    };
+    this.pageViewSeen = false;
+    this.save();
+
+    if (ended) {
+      this.callHook(() => this.hooks.onEnd(ended));
+    }
+    const started = { ...this.session };
+    this.callHook(() => this.hooks.onStart(started));
+  }
+
+  /**
+   * 执行回调，回调异常不影响会话
+   * @private
+   */
+  private callHook(hook: () => void) {
+    try {
+      hook();
+    } catch (err) {
+      console.error('[web-moniter] 执行会话回调失败', err);
+    }
+  }
+
+  /**
+   * 获取存储对象，不可用时返回 null
+   * @private
+   */
+  private getStorage(): Storage | null {
+    const type = this.options.storage || 'sessionStorage';
+    if (type === 'memory') {
+      return null;
+    }
+    try {
+      return typeof window !== 'undefined' ? window[type] : null;
+    } catch (err) {
+      return null;
+    }
+  }
+
+  /**
+   * 读取已保存的会话
+   * @private
+   */
+  private load(): SessionInfo | null {
+    try {
+      const raw = this.getStorage()?.getItem(this.key);
+      const session = raw ? JSON.parse(raw) : null;
+      return session && typeof session.id === 'string' ? session : null;
+    } catch (err) {
+      return null;
+    }
+  }
+
+  /**
+   * 保存当前会话
+   * @private
+   */
+  private save() {
+    try {
+      this.getStorage()?.setItem(this.key, JSON.stringify(this.session));
+    } catch (err) {
+      // 存储不可用时仅在内存中保留会话
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import { MetricData } from '@senmu/types';
+
+/**
+ * 指标持久化存储接口
+ */
+export interface MetricStorage {
+  // 读取已持久化的指标
+  load(): Promise<MetricData[]>;
+  // 覆盖写入指标快照
+  save(metrics: MetricData[]): Promise<void>;
+}
+
+const DB_NAME = 'web-moniter';
+const STORE_NAME = 'metric-queue';
+
+// 同一页面内的所有存储共用一个数据库连接（如认领其他实例的缓存时），只打开一次
+let sharedDB: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * 基于 localStorage 的存储（同步 API，包装为 Promise）
+ */
+export class LocalStorageMetricStorage implements MetricStorage {
+  private key: string;
+
+  constructor(key: string) {
+    this.key = key;
+  }
+
+  async load(): Promise<MetricData[]> {
+    try {
+      const raw = window.localStorage.getItem(this.key);
+      const metrics = raw ? JSON.parse(raw) : [];
+      return Array.isArray(metrics) ? metrics : [];
+    } catch (err) {
+      console.warn('[web-moniter] 读取 localStorage 缓存失败', err);
+      return [];
+    }
+  }
+
+  async save(metrics: MetricData[]): Promise<void> {
+    try {
+      if (metrics.length === 0) {
+        window.localStorage.removeItem(this.key);
+      } else {
+        window.localStorage.setItem(this.key, JSON.stringify(metrics));
+      }
+    } catch (err) {
+      // 可能是超出存储配额或隐私模式
+      console.warn('[web-moniter] 写入 localStorage 缓存失败', err);
+    }
+  }
+}
+
+/**
+ * 基于 IndexedDB 的存储，打开数据库失败时降级到备用存储
+ */
+export class IndexedDBMetricStorage implements MetricStorage {
+  private key: string;
+  private fallback?: MetricStorage;
+
+  constructor(key: string, fallback?: MetricStorage) {
+    this.key = key;
+    this.fallback = fallback;
+  }
+
+  async load(): Promise<MetricData[]> {
+    const db = await this.openDB();
+    if (!db) {
+      return this.fallback ? this.fallback.load() : [];
+    }
+
+    try {
+      const metrics = await this.request<MetricData[] | undefined>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(this.key)
+      );
+      return Array.isArray(metrics) ? metrics : [];
+    } catch (err) {
+      console.warn('[web-moniter] 读取 IndexedDB 缓存失败', err);
+      return [];
+    }
+  }
+
+  async save(metrics: MetricData[]): Promise<void> {
+    const db = await this.openDB();
+    if (!db) {
+      return this.fallback?.save(metrics);
+    }
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await this.request(metrics.length === 0 ? store.delete(this.key) : store.put(metrics, this.key));
+    } catch (err) {
+      console.warn('[web-moniter] 写入 IndexedDB 缓存失败', err);
+    }
+  }
+
+  /**
+   * 打开数据库（所有实例共用，只打开一次）
+   * @private
+   */
+  private openDB(): Promise<IDBDatabase | null> {
+    if (!sharedDB) {
+      sharedDB = new Promise(resolve => {
+        try {
+          const request = indexedDB.open(DB_NAME, 1);
+          request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+              request.result.createObjectStore(STORE_NAME);
+            }
+          };
+          request.onsuccess = () => {
+            // 连接被浏览器关闭（如清除站点数据）后，下次使用时重新打开
+            request.result.onclose = () => {
+              sharedDB = null;
+            };
+            resolve(request.result);
+          };
+          request.onerror = () => resolve(null);
+          request.onblocked = () => resolve(null);
+        } catch (err) {
+          resolve(null);
+        }
+      });
+    }
+    return sharedDB;
+  }
+
+  /**
+   * 将 IDBRequest 转换为 Promise
+   * @private
+   */
+  private request<T>(req: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  }
+}
+
+// 离线缓存租约时长：持有者在此期间未续约（页面已关闭）时，其数据可被其他实例认领
+export const CACHE_LEASE_DURATION = 60 * 1000;
+
+/**
+ * 离线缓存的租约登记表，保存在 localStorage 中供同一项目的所有标签页共享
+ * 每个追踪器实例把未上报的数据保存在各自的键下并定期续约，初始化时只认领租约已过期的数据，
+ * 避免多个标签页互相覆盖快照或重复补报同一批数据
+ */
+export class CacheLeaseRegistry {
+  private key: string;
+
+  constructor(key: string) {
+    this.key = key;
+  }
+
+  /**
+   * 续约，持有者仍有未上报的数据时调用
+   */
+  renew(owner: string, now = Date.now()) {
+    this.update(leases => {
+      leases[owner] = now + CACHE_LEASE_DURATION;
+    });
+  }
+
+  /**
+   * 立即释放租约（页面隐藏时），数据可被下一个初始化的实例认领
+   */
+  release(owner: string) {
+    this.update(leases => {
+      leases[owner] = 0;
+    });
+  }
+
+  /**
+   * 移除租约，持有者的数据已全部送达时调用
+   */
+  remove(owner: string) {
+    this.update(leases => {
+      delete leases[owner];
+    });
+  }
+
+  /**
+   * 持有者的租约是否仍在登记表中（未被其他实例认领），localStorage 不可用时无法判断，视为仍持有
+   */
+  isHeld(owner: string): boolean {
+    try {
+      const raw = window.localStorage.getItem(this.key);
+      const leases = raw ? JSON.parse(raw) : {};
+      return !!leases && typeof leases === 'object' && owner in leases;
+    } catch (err) {
+      return true;
+    }
+  }
+
+  /**
+   * 认领租约已过期的持有者，认领后立即从登记表中移除，返回被认领的持有者
+   */
+  claimExpired(self: string, now = Date.now()): string[] {
+    const claimed: string[] = [];
+    this.update(leases => {
+      Object.keys(leases).forEach(owner => {
+        if (owner !== self && leases[owner] <= now) {
+          claimed.push(owner);
+          delete leases[owner];
+        }
+      });
+    });
+    return claimed;
+  }
+
+  /**
+   * 读取、修改并写回登记表，localStorage 不可用时忽略
+   * @private
+   */
+  private update(modify: (leases: Record<string, number>) => void) {
+    try {
+      const raw = window.localStorage.getItem(this.key);
+      const parsed = raw ? JSON.parse(raw) : {};
+      const leases: Record<string, number> = parsed && typeof parsed === 'object' ? parsed : {};
+      modify(leases);
+      if (Object.keys(leases).length === 0) {
+        window.localStorage.removeItem(this.key);
+      } else {
+        window.localStorage.setItem(this.key, JSON.stringify(leases));
+      }
+    } catch (err) {
+      // 存储不可用时无法跨标签页认领，只影响已关闭标签页数据的补报
+    }
+  }
+}
+
+/**
+ * 根据运行环境创建可用的持久化存储
+ */
+export function createMetricStorage(key: string): MetricStorage | null {
+  const hasLocalStorage = (() => {
+    try {
+      return typeof window !== 'undefined' && !!window.localStorage;
+    } catch (err) {
+      return false;
+    }
+  })();
+
+  const localStorageMetricStorage = hasLocalStorage ? new LocalStorageMetricStorage(key) : undefined;
+
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBMetricStorage(key, localStorageMetricStorage);
+  }
+
+  return localStorageMetricStorage || null;
+}
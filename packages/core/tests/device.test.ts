@@ -0,0 +1,127 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseUserAgent, parseClientHints, detectDevice, DeviceDetector } from '../src/device';
+import { createTracker } from '../src/index';
+import { MetricType } from '@senmu/types';
+
+const UA = {
+  chromeWindows: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.6099.130 Safari/537.36',
+  edgeWindows: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.2210.91',
+  safariMac: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15',
+  firefoxLinux: 'Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0',
+  safariIPhone: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Mobile/15E148 Safari/604.1',
+  wechatAndroid: 'Mozilla/5.0 (Linux; Android 13; PGT-AN10 Build/HONORPGT-AN10; wv) AppleWebKit/537.36 (KHTML, like Gecko) Version/4.0 Chrome/111.0.5563.116 Mobile Safari/537.36 MicroMessenger/8.0.44.2502',
+  chromeAndroidReduced: 'Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36',
+  iPad: 'Mozilla/5.0 (iPad; CPU OS 16_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.6 Mobile/15E148 Safari/604.1'
+};
+
+describe('设备信息检测', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('parseUserAgent', () => {
+    it('应该识别桌面浏览器', () => {
+      expect(parseUserAgent(UA.chromeWindows)).toEqual({
+        os: 'Windows', osVersion: '10', browser: 'Chrome', browserVersion: '120.0.6099.130', device: 'desktop'
+      });
+      expect(parseUserAgent(UA.edgeWindows)).toEqual(expect.objectContaining({ browser: 'Edge', browserVersion: '120.0.2210.91' }));
+      expect(parseUserAgent(UA.safariMac)).toEqual(expect.objectContaining({
+        os: 'macOS', osVersion: '10.15.7', browser: 'Safari', browserVersion: '17.2'
+      }));
+      expect(parseUserAgent(UA.firefoxLinux)).toEqual(expect.objectContaining({ os: 'Linux', browser: 'Firefox', browserVersion: '121.0' }));
+    });
+
+    it('应该识别移动设备与型号', () => {
+      expect(parseUserAgent(UA.safariIPhone)).toEqual({
+        os: 'iOS', osVersion: '17.2.1', browser: 'Safari', browserVersion: '17.2', device: 'mobile', deviceModel: 'iPhone'
+      });
+      expect(parseUserAgent(UA.wechatAndroid)).toEqual({
+        os: 'Android', osVersion: '13', browser: 'WeChat', browserVersion: '8.0.44.2502', device: 'mobile', deviceModel: 'PGT-AN10'
+      });
+      expect(parseUserAgent(UA.iPad)).toEqual(expect.objectContaining({ os: 'iOS', osVersion: '16.6', device: 'tablet', deviceModel: 'iPad' }));
+    });
+
+    it('精简 UA 中的占位型号不应该被记录', () => {
+      expect(parseUserAgent(UA.chromeAndroidReduced).deviceModel).toBeUndefined();
+    });
+  });
+
+  describe('UA-CH', () => {
+    it('应该从品牌列表中忽略干扰项', () => {
+      expect(parseClientHints({
+        brands: [
+          { brand: 'Not_A Brand', version: '8' },
+          { brand: 'Chromium', version: '120' },
+          { brand: 'Google Chrome', version: '120' }
+        ],
+        mobile: false,
+        platform: 'Windows'
+      })).toEqual({ os: 'Windows', browser: 'Chrome', browserVersion: '120' });
+    });
+
+    it('应该通过高熵信息补充系统版本与型号', async () => {
+      vi.stubGlobal('navigator', {
+        userAgent: UA.chromeWindows,
+        language: 'zh-CN',
+        userAgentData: {
+          brands: [{ brand: 'Google Chrome', version: '120' }],
+          mobile: false,
+          platform: 'Windows',
+          getHighEntropyValues: vi.fn().mockResolvedValue({
+            platformVersion: '15.0.0',
+            model: '',
+            fullVersionList: [{ brand: 'Google Chrome', version: '120.0.6099.217' }]
+          })
+        }
+      });
+
+      const detector = new DeviceDetector();
+      expect(detector.getInfo()).toEqual(expect.objectContaining({ os: 'Windows', osVersion: '10', browser: 'Chrome' }));
+
+      await detector.ready;
+      // Windows 11 的 UA 仍为 NT 10.0，只能通过 UA-CH 区分
+      expect(detector.getInfo()).toEqual(expect.objectContaining({ osVersion: '11', browserVersion: '120.0.6099.217' }));
+    });
+  });
+
+  it('应该采集屏幕、语言与时区', () => {
+    vi.stubGlobal('devicePixelRatio', 2);
+    vi.spyOn(window.screen, 'width', 'get').mockReturnValue(390);
+    vi.spyOn(window.screen, 'height', 'get').mockReturnValue(844);
+
+    expect(detectDevice()).toEqual(expect.objectContaining({
+      screenWidth: 390,
+      screenHeight: 844,
+      dpr: 2,
+      language: navigator.language,
+      timezone: expect.any(String)
+    }));
+  });
+
+  it('配置的 deviceInfo 应该覆盖检测结果', () => {
+    const reporter = { send: vi.fn().mockResolvedValue(undefined), setConfig: vi.fn(), destroy: vi.fn() };
+    const tracker = createTracker({ project: 'test-project', deviceInfo: { deviceModel: 'Kiosk-01', os: 'Custom OS' } });
+    tracker.setReporter(reporter);
+
+    tracker.send({
+      type: MetricType.CUSTOM,
+      name: 'test-metric',
+      value: 1,
+      timestamp: Date.now(),
+      project: 'test-project',
+      pageUrl: 'https://test.com'
+    }, true);
+
+    const [metrics] = reporter.send.mock.calls[0];
+    expect(metrics[0].device).toEqual(expect.objectContaining({
+      os: 'Custom OS',
+      deviceModel: 'Kiosk-01',
+      language: navigator.language
+    }));
+    tracker.destroy();
+  });
+});
@@ -147,21 +147,404 @@ describe('Tracker', () => {
       // 验证 send 方法被立即调用
       expect(mockReporter.send).toHaveBeenCalledTimes(1);
     });
+
+    it('flush 应该在数据送达后 resolve', async () => {
+      let deliver!: () => void;
+      mockReporter.send.mockImplementationOnce(() => new Promise<void>(resolve => { deliver = resolve; }));
+
+      tracker.send({
+        type: MetricType.CUSTOM,
+        name: 'test-metric',
+        value: 100,
+        timestamp: Date.now(),
+        project: 'test-project',
+        pageUrl: 'https://test.com'
+      });
+
+      let delivered = false;
+      const flushPromise = tracker.flush().then(() => { delivered = true; });
+
+      await Promise.resolve();
+      expect(delivered).toBe(false);
+
+      deliver();
+      await flushPromise;
+      expect(delivered).toBe(true);
+    });
+
+    it('flush 应该在上报失败时 reject 并保留数据', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockReporter.send.mockRejectedValueOnce(new Error('网络错误'));
+
+      tracker.send({
+        type: MetricType.CUSTOM,
+        name: 'test-metric',
+        value: 100,
+        timestamp: Date.now(),
+        project: 'test-project',
+        pageUrl: 'https://test.com'
+      });
+
+      await expect(tracker.flush()).rejects.toThrow('网络错误');
+
+      // 再次 flush 时应该重新发送失败的数据
+      await tracker.flush();
+      expect(mockReporter.send).toHaveBeenLastCalledWith(
+        [expect.objectContaining({ name: 'test-metric' })],
+        true
+      );
+    });
+
+    it('部分数据已送达时应该只重新发送未送达的数据', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockReporter.send.mockImplementationOnce((metrics: MetricData[]) => {
+        const error: any = new Error('部分路由失败');
+        error.undelivered = metrics.filter(m => m.name === 'pv-metric');
+        return Promise.reject(error);
+      });
+
+      const base = { value: 1, timestamp: Date.now(), project: 'test-project', pageUrl: 'https://test.com' };
+      tracker.send({ ...base, type: MetricType.CUSTOM, name: 'custom-metric' });
+      tracker.send({ ...base, type: MetricType.CUSTOM, name: 'pv-metric' });
+
+      await expect(tracker.flush()).rejects.toThrow('部分路由失败');
+
+      await tracker.flush();
+      expect(mockReporter.send).toHaveBeenLastCalledWith(
+        [expect.objectContaining({ name: 'pv-metric' })],
+        true
+      );
+    });
+  });
+  
+  describe('数据处理器', () => {
+    const createMetric = (name = 'test-metric'): MetricData => ({
+      type: MetricType.CUSTOM,
+      name,
+      value: 100,
+      timestamp: Date.now(),
+      project: 'test-project',
+      pageUrl: 'https://test.com'
+    });
+
+    beforeEach(() => {
+      tracker.setReporter(mockReporter);
+    });
+
+    it('处理器应该能修改补充后的数据', () => {
+      const processor = vi.fn((metric: MetricData) => ({ ...metric, tags: { scrubbed: true } }));
+      tracker.addProcessor(processor);
+
+      tracker.send(createMetric(), true);
+
+      expect(processor).toHaveBeenCalledWith(expect.objectContaining({ sessionId: expect.any(String) }));
+      expect(mockReporter.send).toHaveBeenCalledWith(
+        [expect.objectContaining({ tags: { scrubbed: true } })],
+        true
+      );
+    });
+
+    it('处理器返回 null 时应该丢弃数据', () => {
+      tracker.addProcessor(metric => (metric as any).name === 'drop' ? null : metric);
+
+      tracker.send([createMetric('drop'), createMetric('keep')], true);
+
+      expect(mockReporter.send).toHaveBeenCalledTimes(1);
+      expect(mockReporter.send).toHaveBeenCalledWith([expect.objectContaining({ name: 'keep' })], true);
+    });
+
+    it('应该按优先级从高到低执行，配置中的 beforeSend 最后执行', () => {
+      const calls: string[] = [];
+      tracker.setConfig({
+        beforeSend: () => { calls.push('beforeSend'); },
+        processors: [
+          () => { calls.push('config'); },
+          { name: 'high', priority: 20, process: () => { calls.push('config-high'); } }
+        ]
+      });
+      tracker.addProcessor(() => { calls.push('low'); }, { priority: -10 });
+      tracker.addProcessor(() => { calls.push('default'); });
+      tracker.addProcessor(() => { calls.push('high'); }, { priority: 10 });
+
+      tracker.send(createMetric(), true);
+
+      expect(calls).toEqual(['config-high', 'high', 'default', 'config', 'low', 'beforeSend']);
+    });
+
+    it('应该支持异步处理器', async () => {
+      tracker.addProcessor(async metric => ({ ...metric, tags: { async: true } }));
+      tracker.addProcessor(metric => ({ ...metric, tags: { ...metric.tags, sync: true } }), { priority: -1 });
+
+      tracker.send(createMetric(), true);
+      expect(mockReporter.send).not.toHaveBeenCalled();
+
+      await vi.waitFor(() => {
+        expect(mockReporter.send).toHaveBeenCalledWith(
+          [expect.objectContaining({ tags: { async: true, sync: true } })],
+          true
+        );
+      });
+    });
+
+    it('处理器异常时应该跳过该处理器', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      tracker.addProcessor(() => { throw new Error('处理失败'); });
+
+      tracker.send(createMetric(), true);
+
+      expect(mockReporter.send).toHaveBeenCalledWith([expect.objectContaining({ name: 'test-metric' })], true);
+    });
+
+    it('应该能移除处理器', () => {
+      const remove = tracker.addProcessor(() => null);
+      remove();
+
+      tracker.send(createMetric(), true);
+
+      expect(mockReporter.send).toHaveBeenCalledTimes(1);
+    });
+  });
+  
+  describe('用户行为记录', () => {
+    beforeEach(() => {
+      tracker.setReporter(mockReporter);
+    });
+
+    it('错误数据应该携带最近的用户行为记录', () => {
+      tracker.addBreadcrumb({ type: 'click', message: 'button#submit' });
+      tracker.addBreadcrumb({ type: 'http', message: 'GET /api/user', level: 'error', timestamp: 1000 });
+
+      tracker.addError(new Error('测试错误'));
+
+      const [metrics] = mockReporter.send.mock.calls[0];
+      expect(metrics[0].breadcrumbs).toEqual([
+        expect.objectContaining({ type: 'click', message: 'button#submit', level: 'info', timestamp: expect.any(Number) }),
+        { type: 'http', message: 'GET /api/user', level: 'error', timestamp: 1000 }
+      ]);
+    });
+
+    it('非错误数据不应该携带用户行为记录', () => {
+      tracker.addBreadcrumb({ type: 'click', message: 'button#submit' });
+
+      tracker.send({
+        type: MetricType.CUSTOM,
+        name: 'test-metric',
+        value: 100,
+        timestamp: Date.now(),
+        project: 'test-project',
+        pageUrl: 'https://test.com'
+      }, true);
+
+      const [metrics] = mockReporter.send.mock.calls[0];
+      expect(metrics[0].breadcrumbs).toBeUndefined();
+    });
+
+    it('超出上限时应该丢弃最旧的记录', () => {
+      tracker.setConfig({ maxBreadcrumbs: 3 });
+      for (let i = 0; i < 5; i++) {
+        tracker.addBreadcrumb({ type: 'custom', message: `${i}` });
+      }
+
+      expect(tracker.getBreadcrumbs().map(item => item.message)).toEqual(['2', '3', '4']);
+
+      // 缩小容量时保留最新的记录
+      tracker.setConfig({ maxBreadcrumbs: 2 });
+      expect(tracker.getBreadcrumbs().map(item => item.message)).toEqual(['3', '4']);
+    });
+
+    it('maxBreadcrumbs 为 0 时应该关闭记录', () => {
+      tracker.setConfig({ maxBreadcrumbs: 0 });
+      tracker.addBreadcrumb({ type: 'custom', message: 'ignored' });
+
+      expect(tracker.getBreadcrumbs()).toEqual([]);
+    });
+
+    it('应该通过 beforeBreadcrumb 过滤和修改记录', () => {
+      tracker.setConfig({
+        beforeBreadcrumb: crumb => {
+          if (crumb.type === 'console') {
+            return null;
+          }
+          return { ...crumb, message: crumb.message?.replace(/token=\w+/, 'token=***') };
+        }
+      });
+
+      tracker.addBreadcrumb({ type: 'console', message: 'debug' });
+      tracker.addBreadcrumb({ type: 'http', message: 'GET /api?token=abc' });
+
+      expect(tracker.getBreadcrumbs()).toEqual([
+        expect.objectContaining({ type: 'http', message: 'GET /api?token=***' })
+      ]);
+    });
+
+    it('应该能清空记录', () => {
+      tracker.addBreadcrumb({ type: 'custom', message: 'a' });
+      tracker.clearBreadcrumbs();
+
+      expect(tracker.getBreadcrumbs()).toEqual([]);
+    });
+  });
+  
+  describe('用户与上下文', () => {
+    const createMetric = (extra: Partial<MetricData> = {}): MetricData => ({
+      type: MetricType.CUSTOM,
+      name: 'test-metric',
+      value: 100,
+      timestamp: Date.now(),
+      project: 'test-project',
+      pageUrl: 'https://test.com',
+      ...extra
+    } as MetricData);
+
+    beforeEach(() => {
+      tracker.setReporter(mockReporter);
+      localStorage.clear();
+    });
+
+    it('应该将用户、标签与上下文合并到每条数据', () => {
+      tracker
+        .setUser({ id: 'u-1', username: 'senmu' })
+        .setTag('env', 'prod')
+        .setTags({ region: 'cn', plan: 'pro' })
+        .setContext('order', { id: 'o-1' });
+
+      tracker.send(createMetric({ tags: { plan: 'free' } }), true);
+
+      const [metrics] = mockReporter.send.mock.calls[0];
+      expect(metrics[0]).toEqual(expect.objectContaining({
+        uid: 'u-1',
+        user: { id: 'u-1', username: 'senmu' },
+        // 数据自身的标签优先
+        tags: { env: 'prod', region: 'cn', plan: 'free' },
+        contexts: { order: { id: 'o-1' } }
+      }));
+    });
+
+    it('应该能移除单个标签与上下文', () => {
+      tracker.setTags({ a: 1, b: 2 }).setTag('a', undefined);
+      tracker.setContext('order', { id: 'o-1' }).setContext('order', null);
+
+      tracker.send(createMetric(), true);
+
+      const [metrics] = mockReporter.send.mock.calls[0];
+      expect(metrics[0].tags).toEqual({ b: 2 });
+      expect(metrics[0].contexts).toBeUndefined();
+    });
+
+    it('退出登录后不应该再携带用户信息', () => {
+      tracker.setUser({ id: 'u-1' }).setTag('env', 'prod');
+      tracker.setUser(null);
+      tracker.send(createMetric(), true);
+
+      tracker.clearScope();
+      tracker.send(createMetric(), true);
+
+      const first = mockReporter.send.mock.calls[0][0][0];
+      expect(first.uid).toBeUndefined();
+      expect(first.user).toBeUndefined();
+      expect(first.tags).toEqual({ env: 'prod' });
+
+      const second = mockReporter.send.mock.calls[1][0][0];
+      expect(second.tags).toBeUndefined();
+    });
+
+    it('开启 persistScope 后应该在刷新后恢复', () => {
+      const t1 = createTracker({ project: 'scope-project', persistScope: true });
+      t1.setUser({ id: 'u-1' }).setTag('env', 'prod');
+
+      const t2 = createTracker({ project: 'scope-project', persistScope: true });
+      t2.setReporter(mockReporter);
+      t2.send(createMetric(), true);
+
+      expect(mockReporter.send).toHaveBeenCalledWith(
+        [expect.objectContaining({ uid: 'u-1', tags: { env: 'prod' } })],
+        true
+      );
+
+      // 清除后持久化数据也应该被移除
+      t2.clearScope();
+      expect(localStorage.getItem('web-moniter:scope-project:scope')).toBeNull();
+    });
+
+    it('未开启 persistScope 时不应该写入存储', () => {
+      tracker.setUser({ id: 'u-1' });
+
+      expect(localStorage.length).toBe(0);
+    });
   });
   
   describe('错误处理', () => {
-    it('应该能处理错误', () => {
-      // 间谍监听 console.error
-      const consoleErrorSpy = vi.spyOn(console, 'error');
-      
-      const error = new Error('测试错误');
+    beforeEach(() => {
+      tracker.setReporter(mockReporter);
+    });
+
+    it('应该将错误转换为 JS 错误指标并立即上报', () => {
+      const error = new TypeError('测试错误');
       tracker.addError(error, {
         category: 'test',
-        level: 'error'
+        level: 'warning'
       });
       
-      // 验证 console.error 被调用
-      expect(consoleErrorSpy).toHaveBeenCalled();
+      expect(mockReporter.send).toHaveBeenCalledWith(
+        [expect.objectContaining({
+          type: MetricType.JS_ERROR,
+          name: 'TypeError',
+          message: '测试错误',
+          stack: error.stack,
+          errorType: 'manual',
+          level: 'warning',
+          category: 'test',
+          project: 'test-project'
+        })],
+        true
+      );
+    });
+
+    it('未指定级别时应该默认为 error', () => {
+      tracker.addError(new Error('测试错误'));
+
+      const [metrics] = mockReporter.send.mock.calls[0];
+      expect(metrics[0].level).toBe('error');
+      expect(metrics[0].category).toBeUndefined();
+    });
+
+    it('错误没有堆栈时应该记录调用处的堆栈', () => {
+      const error = new Error('测试错误');
+      error.stack = undefined;
+
+      tracker.addError(error);
+
+      const [metrics] = mockReporter.send.mock.calls[0];
+      expect(metrics[0].stack).toEqual(expect.any(String));
+      expect(metrics[0].stack).not.toContain('captureStack');
+    });
+
+    it('应该附加只属于该错误的标签与上下文，并与全局标签合并', () => {
+      tracker.setTag('env', 'prod');
+      tracker.addError(new Error('测试错误'), {
+        tags: { boundary: 'App' },
+        contexts: { react: { componentStack: '\n    at App' } }
+      });
+
+      const [metrics] = mockReporter.send.mock.calls[0];
+      expect(metrics[0].tags).toEqual({ env: 'prod', boundary: 'App' });
+      expect(metrics[0].contexts).toEqual({ react: { componentStack: '\n    at App' } });
+    });
+
+    it('应该兼容非 Error 类型的参数', () => {
+      tracker.addError('字符串错误' as any);
+
+      const [metrics] = mockReporter.send.mock.calls[0];
+      expect(metrics[0]).toEqual(expect.objectContaining({ name: 'Error', message: '字符串错误' }));
+    });
+
+    it('应该遵循采样率', () => {
+      tracker.setConfig({ sampleRate: 0.5 });
+      vi.spyOn(Math, 'random').mockReturnValue(0.9);
+
+      tracker.addError(new Error('测试错误'));
+
+      expect(mockReporter.send).not.toHaveBeenCalled();
     });
   });
   
@@ -228,6 +611,259 @@ describe('Tracker', () => {
       // 恢复 Math.random
       mathRandomSpy.mockRestore();
     });
+
+    describe('按类型与规则采样', () => {
+      const createMetric = (type: MetricType, extra: Record<string, any> = {}): MetricData => ({
+        type,
+        name: 'test-metric',
+        value: 1,
+        timestamp: Date.now(),
+        project: 'test-project',
+        pageUrl: 'https://test.com/home',
+        ...extra
+      } as MetricData);
+
+      beforeEach(() => {
+        tracker.setReporter(mockReporter);
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      });
+
+      const sentTypes = () => mockReporter.send.mock.calls.flatMap(([metrics]) => metrics.map((m: MetricData) => m.type));
+
+      it('应该按类型使用不同的采样率', () => {
+        tracker.setConfig({
+          sampleRate: 0.1,
+          sampling: { rates: { [MetricType.JS_ERROR]: 1, [MetricType.PERFORMANCE]: 0.3 } }
+        });
+
+        tracker.send(createMetric(MetricType.JS_ERROR), true);
+        tracker.send(createMetric(MetricType.PERFORMANCE), true);
+        tracker.send(createMetric(MetricType.CUSTOM), true);
+
+        expect(sentTypes()).toEqual([MetricType.JS_ERROR]);
+      });
+
+      it('采样率为 0 时应该丢弃全部数据', () => {
+        tracker.setConfig({ sampling: { rates: { [MetricType.PV]: 0 } } });
+        vi.mocked(Math.random).mockReturnValue(0);
+
+        tracker.send(createMetric(MetricType.PV), true);
+
+        expect(mockReporter.send).not.toHaveBeenCalled();
+      });
+
+      it('应该按顺序匹配地址、标签与自定义规则', () => {
+        tracker.setTag('vip', true);
+        tracker.setConfig({
+          sampleRate: 0,
+          sampling: {
+            rules: [
+              { type: MetricType.API, url: /\/health$/, rate: 0 },
+              { type: MetricType.API, rate: 1 },
+              { tags: { vip: true }, predicate: metric => metric.type === MetricType.CUSTOM, rate: 1 }
+            ]
+          }
+        });
+
+        tracker.send(createMetric(MetricType.API, { url: 'https://test.com/api/health' }), true);
+        tracker.send(createMetric(MetricType.API, { url: 'https://test.com/api/user' }), true);
+        tracker.send(createMetric(MetricType.CUSTOM), true);
+        tracker.send(createMetric(MetricType.PV), true);
+
+        expect(sentTypes()).toEqual([MetricType.API, MetricType.CUSTOM]);
+        expect(mockReporter.send.mock.calls[0][0][0].url).toBe('https://test.com/api/user');
+      });
+
+      it('按会话采样时同一会话的决定应该保持一致', () => {
+        tracker.setConfig({ sampling: { sticky: true, rates: { [MetricType.CUSTOM]: 0.5 } } });
+        const random = vi.mocked(Math.random);
+
+        const results = [0.01, 0.99, 0.3, 0.7].map(value => {
+          random.mockReturnValue(value);
+          mockReporter.send.mockClear();
+          tracker.send(createMetric(MetricType.CUSTOM), true);
+          return mockReporter.send.mock.calls.length;
+        });
+
+        // 与 Math.random 无关，结果全部相同
+        expect(new Set(results).size).toBe(1);
+      });
+    });
+  });
+  
+  describe('离线缓存', () => {
+    const metric: MetricData = {
+      type: MetricType.CUSTOM,
+      name: 'offline-metric',
+      value: 1,
+      timestamp: Date.now(),
+      project: 'test-project',
+      pageUrl: 'https://test.com'
+    };
+
+    const cachePrefix = 'web-moniter:persist-project:cache:';
+
+    // 读取各实例的离线缓存快照
+    const readCaches = (): MetricData[][] => Object.keys(window.localStorage)
+      .filter(key => key.startsWith(cachePrefix))
+      .map(key => JSON.parse(window.localStorage.getItem(key) || '[]'));
+
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    it('应该将未上报的数据持久化到 localStorage', async () => {
+      const t = createTracker({ project: 'persist-project', persistCache: true });
+      t.send(metric);
+
+      await vi.waitFor(() => {
+        const caches = readCaches();
+        expect(caches).toHaveLength(1);
+        const stored = caches[0];
+        expect(stored).toHaveLength(1);
+        expect(stored[0]).toEqual(expect.objectContaining({ name: 'offline-metric' }));
+      });
+      t.destroy();
+    });
+
+    it('应该在下次初始化时补报未发送的数据', async () => {
+      window.localStorage.setItem('web-moniter:persist-project', JSON.stringify([metric]));
+
+      const t = createTracker({ project: 'persist-project', persistCache: true });
+      t.setReporter(mockReporter);
+
+      await vi.waitFor(() => {
+        expect(mockReporter.send).toHaveBeenCalledWith(
+          [expect.objectContaining({ name: 'offline-metric' })],
+          true
+        );
+      });
+
+      // 送达后应清空持久化数据
+      await vi.waitFor(() => {
+        expect(window.localStorage.getItem('web-moniter:persist-project')).toBeNull();
+      });
+      t.destroy();
+    });
+
+    it('上报失败时应该保留数据并在超出上限时丢弃最旧的数据', async () => {
+      const failingReporter = {
+        send: vi.fn().mockRejectedValue(new Error('offline')),
+        setConfig: vi.fn(),
+        destroy: vi.fn()
+      };
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const t = createTracker({ project: 'persist-project', persistCache: true, maxCache: 2 });
+      t.setReporter(failingReporter);
+
+      t.send({ ...metric, value: 1, timestamp: 1 }, true);
+      t.send({ ...metric, value: 2, timestamp: 2 }, true);
+      t.send({ ...metric, value: 3, timestamp: 3 }, true);
+
+      await vi.waitFor(() => {
+        const [stored] = readCaches();
+        expect(stored.map((m: any) => m.value)).toEqual([2, 3]);
+      });
+      t.destroy();
+    });
+
+    it('同一项目的多个实例不应互相覆盖缓存', async () => {
+      const first = createTracker({ project: 'persist-project', persistCache: true });
+      const second = createTracker({ project: 'persist-project', persistCache: true });
+      first.send({ ...metric, value: 1 });
+      second.send({ ...metric, value: 2 });
+
+      await vi.waitFor(() => {
+        const values = readCaches().map(stored => stored.map(m => m.value));
+        expect(values).toHaveLength(2);
+        expect(values).toEqual(expect.arrayContaining([[1], [2]]));
+      });
+      first.destroy();
+      second.destroy();
+    });
+
+    it('应该只认领已关闭页面的缓存且只补报一次', async () => {
+      const closed = createTracker({ project: 'persist-project', persistCache: true });
+      closed.send({ ...metric, value: 1 });
+      const alive = createTracker({ project: 'persist-project', persistCache: true });
+      alive.send({ ...metric, value: 2 });
+      await vi.waitFor(() => expect(readCaches()).toHaveLength(2));
+
+      // 第一个实例被销毁，释放租约
+      closed.destroy();
+
+      const next = createTracker({ project: 'persist-project', persistCache: true });
+      next.setReporter(mockReporter);
+      const other = createTracker({ project: 'persist-project', persistCache: true });
+      const otherReporter = { send: vi.fn().mockResolvedValue(undefined), setConfig: vi.fn(), destroy: vi.fn() };
+      other.setReporter(otherReporter);
+
+      await vi.waitFor(() => {
+        expect(mockReporter.send).toHaveBeenCalledWith(
+          [expect.objectContaining({ value: 1 })],
+          true
+        );
+      });
+      await vi.waitFor(() => expect(readCaches()).toHaveLength(1));
+      // 仍在运行的实例的数据不被认领，已认领的数据不会被再次补报
+      expect(readCaches()[0].map(m => m.value)).toEqual([2]);
+      expect(mockReporter.send).toHaveBeenCalledTimes(1);
+      expect(otherReporter.send).not.toHaveBeenCalled();
+      [alive, next, other].forEach(t => t.destroy());
+    });
+
+    it('页面隐藏时应该释放租约', async () => {
+      const t = createTracker({ project: 'persist-project', persistCache: true });
+      t.send(metric);
+      await vi.waitFor(() => expect(readCaches()).toHaveLength(1));
+
+      const leases = () => JSON.parse(window.localStorage.getItem('web-moniter:persist-project:cache-owners') || '{}');
+      expect(Object.values(leases())).toEqual([expect.any(Number)]);
+      expect(Object.values(leases())[0]).toBeGreaterThan(Date.now());
+
+      window.dispatchEvent(new Event('pagehide'));
+      expect(Object.values(leases())).toEqual([0]);
+      t.destroy();
+    });
+
+    it('从往返缓存恢复时应该丢弃已被其他页面认领的数据', async () => {
+      const restored = createTracker({ project: 'persist-project', persistCache: true });
+      restored.send(metric);
+      await vi.waitFor(() => expect(readCaches()).toHaveLength(1));
+      window.dispatchEvent(new Event('pagehide'));
+
+      // 页面进入往返缓存期间，新打开的页面认领并补报了数据
+      const next = createTracker({ project: 'persist-project', persistCache: true });
+      next.setReporter(mockReporter);
+      await vi.waitFor(() => expect(mockReporter.send).toHaveBeenCalledTimes(1));
+
+      window.dispatchEvent(Object.assign(new Event('pageshow'), { persisted: true }));
+      const restoredReporter = { send: vi.fn().mockResolvedValue(undefined), setConfig: vi.fn(), destroy: vi.fn() };
+      restored.setReporter(restoredReporter);
+      await restored.flush();
+
+      expect(restoredReporter.send).not.toHaveBeenCalled();
+      await vi.waitFor(() => expect(readCaches()).toHaveLength(0));
+      restored.destroy();
+      next.destroy();
+    });
+
+    it('从往返缓存恢复且数据未被认领时应该重新续约', async () => {
+      const t = createTracker({ project: 'persist-project', persistCache: true });
+      t.send(metric);
+      await vi.waitFor(() => expect(readCaches()).toHaveLength(1));
+
+      const leases = () => JSON.parse(window.localStorage.getItem('web-moniter:persist-project:cache-owners') || '{}');
+      window.dispatchEvent(new Event('pagehide'));
+      window.dispatchEvent(Object.assign(new Event('pageshow'), { persisted: true }));
+
+      expect(Object.values(leases())[0]).toBeGreaterThan(Date.now());
+      t.setReporter(mockReporter);
+      await t.flush();
+      expect(mockReporter.send).toHaveBeenCalledWith([expect.objectContaining({ name: 'offline-metric' })], true);
+      t.destroy();
+    });
   });
   
   describe('会话管理', () => {
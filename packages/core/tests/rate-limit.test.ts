@@ -0,0 +1,147 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTracker } from '../src/index';
+import { TokenBucket, getFingerprint } from '../src/rate-limit';
+import { MetricType, MetricData } from '@senmu/types';
+
+const createError = (message = '渲染失败'): MetricData => ({
+  type: MetricType.JS_ERROR,
+  message,
+  name: 'TypeError',
+  errorType: 'js',
+  filename: 'https://test.com/app.js',
+  lineno: 10,
+  colno: 5,
+  timestamp: Date.now(),
+  project: 'test-project',
+  pageUrl: 'https://test.com'
+});
+
+const createCustom = (): MetricData => ({
+  type: MetricType.CUSTOM,
+  name: 'test-metric',
+  value: 1,
+  timestamp: Date.now(),
+  project: 'test-project',
+  pageUrl: 'https://test.com'
+});
+
+describe('限流与去重', () => {
+  const mockReporter = {
+    send: vi.fn().mockResolvedValue(undefined),
+    setConfig: vi.fn(),
+    destroy: vi.fn()
+  };
+  let tracker: ReturnType<typeof createTracker>;
+
+  const sentMetrics = (): MetricData[] => mockReporter.send.mock.calls.flatMap(([metrics]) => metrics);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    tracker = createTracker({ project: 'test-project' });
+    tracker.setReporter(mockReporter);
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+    vi.useRealTimers();
+  });
+
+  describe('TokenBucket', () => {
+    it('应该允许突发并按速率补充', () => {
+      const bucket = new TokenBucket({ capacity: 2, refillRate: 1 }, 0);
+
+      expect(bucket.tryRemove(0)).toBe(true);
+      expect(bucket.tryRemove(0)).toBe(true);
+      expect(bucket.tryRemove(0)).toBe(false);
+      expect(bucket.tryRemove(500)).toBe(false);
+      expect(bucket.tryRemove(1000)).toBe(true);
+    });
+  });
+
+  it('只有错误、接口与资源数据有指纹', () => {
+    expect(getFingerprint(createError())).toEqual(expect.any(String));
+    expect(getFingerprint(createError('a'))).not.toBe(getFingerprint(createError('b')));
+    expect(getFingerprint(createCustom())).toBeUndefined();
+  });
+
+  it('错误数据应该优先使用插件计算的指纹', () => {
+    const a = { ...createError('订单 1 失败'), fingerprint: 'order-failed' } as MetricData;
+    const b = { ...createError('订单 2 失败'), fingerprint: 'order-failed' } as MetricData;
+
+    expect(getFingerprint(a)).toBe(getFingerprint(b));
+  });
+
+  it('窗口内的重复错误应该合并为一条带 count 的数据', () => {
+    for (let i = 0; i < 50; i++) {
+      tracker.send(createError(), true);
+    }
+
+    // 首条立即上报
+    expect(mockReporter.send).toHaveBeenCalledTimes(1);
+    expect(sentMetrics()[0].count).toBeUndefined();
+
+    vi.advanceTimersByTime(1000);
+
+    expect(mockReporter.send).toHaveBeenCalledTimes(2);
+    expect(sentMetrics()[1]).toEqual(expect.objectContaining({ message: '渲染失败', count: 49 }));
+  });
+
+  it('不同的错误不应该被合并', () => {
+    tracker.send(createError('a'), true);
+    tracker.send(createError('b'), true);
+
+    expect(sentMetrics().map(m => (m as any).message)).toEqual(['a', 'b']);
+  });
+
+  it('销毁时应该输出窗口中尚未合并的数据', () => {
+    tracker.send(createError(), true);
+    tracker.send(createError(), true);
+
+    tracker.destroy();
+
+    expect(sentMetrics()).toEqual([
+      expect.objectContaining({ message: '渲染失败' }),
+      expect.objectContaining({ message: '渲染失败', count: 1 })
+    ]);
+  });
+
+  it('应该按指纹限流', () => {
+    tracker.setConfig({ rateLimit: { dedupeWindow: 0, fingerprint: { capacity: 3, refillRate: 1 } } });
+
+    for (let i = 0; i < 10; i++) {
+      tracker.send(createError(), true);
+    }
+    expect(sentMetrics()).toHaveLength(3);
+
+    vi.advanceTimersByTime(1000);
+    tracker.send(createError(), true);
+    expect(sentMetrics()).toHaveLength(4);
+  });
+
+  it('应该按类型限流', () => {
+    tracker.setConfig({ rateLimit: { types: { '*': { capacity: 5, refillRate: 0 }, [MetricType.JS_ERROR]: { capacity: 1, refillRate: 0 } } } });
+
+    for (let i = 0; i < 10; i++) {
+      tracker.send(createCustom(), true);
+      tracker.send(createError(`错误${i}`), true);
+    }
+
+    const types = sentMetrics().map(m => m.type);
+    expect(types.filter(type => type === MetricType.CUSTOM)).toHaveLength(5);
+    expect(types.filter(type => type === MetricType.JS_ERROR)).toHaveLength(1);
+  });
+
+  it('传 false 时应该关闭限流与去重', () => {
+    tracker.setConfig({ rateLimit: false });
+
+    for (let i = 0; i < 200; i++) {
+      tracker.send(createError(), true);
+    }
+
+    expect(sentMetrics()).toHaveLength(200);
+  });
+});
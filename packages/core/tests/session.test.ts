@@ -0,0 +1,212 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTracker } from '../src/index';
+import { MetricType, MetricData } from '@senmu/types';
+
+const createMetric = (type: MetricType = MetricType.CUSTOM): MetricData => ({
+  type,
+  name: 'test-metric',
+  value: 1,
+  message: 'test',
+  errorType: 'js',
+  title: 'page',
+  path: '/',
+  timestamp: Date.now(),
+  project: 'test-project',
+  pageUrl: 'https://test.com'
+} as MetricData);
+
+describe('会话管理', () => {
+  const mockReporter = {
+    send: vi.fn().mockResolvedValue(undefined),
+    setConfig: vi.fn(),
+    destroy: vi.fn()
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessionStorage.clear();
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 0, 1, 10, 0, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('刷新页面后应该延续同一会话并累计页面数', () => {
+    const first = createTracker({ project: 'test-project' });
+    const session = first.getSession();
+    expect(session.pageCount).toBe(1);
+
+    vi.advanceTimersByTime(60 * 1000);
+    const second = createTracker({ project: 'test-project' });
+
+    expect(second.getSession()).toEqual(expect.objectContaining({ id: session.id, pageCount: 2 }));
+  });
+
+  it('数据应该携带当前会话ID', () => {
+    const tracker = createTracker({ project: 'test-project' });
+    tracker.setReporter(mockReporter);
+
+    tracker.send(createMetric(), true);
+
+    expect(mockReporter.send).toHaveBeenCalledWith(
+      [expect.objectContaining({ sessionId: tracker.getSession().id })],
+      true
+    );
+  });
+
+  it('无操作超时后应该开始新会话并触发回调', () => {
+    const onSessionStart = vi.fn();
+    const onSessionEnd = vi.fn();
+    const tracker = createTracker({
+      project: 'test-project',
+      session: { timeout: 5 * 60 * 1000, onSessionStart, onSessionEnd }
+    });
+    const oldId = tracker.getSession().id;
+    expect(onSessionStart).toHaveBeenCalledTimes(1);
+
+    // 用户操作会延长会话
+    vi.advanceTimersByTime(4 * 60 * 1000);
+    tracker.addBreadcrumb({ type: 'click', message: 'button' });
+    vi.advanceTimersByTime(4 * 60 * 1000);
+    expect(tracker.getSession().id).toBe(oldId);
+
+    vi.advanceTimersByTime(6 * 60 * 1000);
+    const newSession = tracker.getSession();
+
+    expect(newSession.id).not.toBe(oldId);
+    expect(onSessionEnd).toHaveBeenCalledWith(expect.objectContaining({ id: oldId }));
+    expect(onSessionStart).toHaveBeenLastCalledWith(expect.objectContaining({ id: newSession.id, pageCount: 1, errorCount: 0 }));
+  });
+
+  it('SDK 自动产生的数据与行为记录不应该延长会话', () => {
+    const tracker = createTracker({ project: 'test-project', session: { timeout: 5 * 60 * 1000 } });
+    const oldId = tracker.getSession().id;
+
+    // 模拟轮询接口：每分钟产生一次请求记录与接口数据
+    for (let i = 0; i < 6; i++) {
+      vi.advanceTimersByTime(60 * 1000);
+      tracker.addBreadcrumb({ type: 'http', category: 'fetch', message: 'GET /api/poll' });
+      tracker.addBreadcrumb({ type: 'console', message: 'polling' });
+      tracker.send(createMetric(MetricType.API));
+      tracker.send(createMetric());
+    }
+
+    expect(tracker.getSession().id).not.toBe(oldId);
+  });
+
+  it('页面访问与 touchSession 应该延长会话', () => {
+    const tracker = createTracker({ project: 'test-project', session: { timeout: 5 * 60 * 1000 } });
+    const oldId = tracker.getSession().id;
+
+    vi.advanceTimersByTime(4 * 60 * 1000);
+    tracker.send(createMetric(MetricType.PV));
+    vi.advanceTimersByTime(4 * 60 * 1000);
+    tracker.touchSession();
+    vi.advanceTimersByTime(4 * 60 * 1000);
+
+    expect(tracker.getSession().id).toBe(oldId);
+  });
+
+  it('页面加载时上次的会话已过期，应该先结束旧会话再开始新会话', () => {
+    const events: string[] = [];
+    const session = {
+      timeout: 5 * 60 * 1000,
+      onSessionStart: vi.fn(() => events.push('start')),
+      onSessionEnd: vi.fn(() => events.push('end'))
+    };
+    const first = createTracker({ project: 'test-project', session });
+    first.send(createMetric(MetricType.JS_ERROR));
+    const oldSession = first.getSession();
+    events.length = 0;
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    const second = createTracker({ project: 'test-project', session });
+
+    expect(second.getSession().id).not.toBe(oldSession.id);
+    expect(session.onSessionEnd).toHaveBeenCalledWith(expect.objectContaining({ id: oldSession.id, errorCount: 1 }));
+    expect(events).toEqual(['end', 'start']);
+  });
+
+  it('开启 report 后页面隐藏时应该立即上报会话状态', () => {
+    const tracker = createTracker({ project: 'test-project', session: { report: true } });
+    tracker.setReporter(mockReporter);
+    tracker.flush();
+    mockReporter.send.mockClear();
+    tracker.send(createMetric(MetricType.JS_ERROR));
+
+    window.dispatchEvent(new Event('pagehide'));
+
+    const [metrics, immediately] = mockReporter.send.mock.calls[0];
+    expect(immediately).toBe(true);
+    expect(metrics.find((m: any) => m.name === 'session_update')).toEqual(expect.objectContaining({
+      sessionId: tracker.getSession().id,
+      tags: { pageCount: 1, errorCount: 1 }
+    }));
+
+    tracker.destroy();
+    mockReporter.send.mockClear();
+    window.dispatchEvent(new Event('pagehide'));
+    expect(mockReporter.send).not.toHaveBeenCalled();
+  });
+
+  it('跨天时应该开始新会话', () => {
+    vi.setSystemTime(new Date(2024, 0, 1, 23, 59, 0));
+    const tracker = createTracker({ project: 'test-project' });
+    const oldId = tracker.getSession().id;
+
+    vi.advanceTimersByTime(2 * 60 * 1000);
+
+    expect(tracker.getSession().id).not.toBe(oldId);
+  });
+
+  it('应该统计会话内的错误数与页面数', () => {
+    const tracker = createTracker({ project: 'test-project', sampleRate: 0.5 });
+    vi.spyOn(Math, 'random').mockReturnValue(0.9);
+
+    tracker.send(createMetric(MetricType.JS_ERROR));
+    tracker.addError(new Error('测试错误'));
+    // 首个 PV 对应页面加载本身，之后的 PV 为单页应用的路由切换
+    tracker.send(createMetric(MetricType.PV));
+    tracker.send(createMetric(MetricType.PV));
+
+    // 被采样丢弃的错误同样计入
+    expect(tracker.getSession()).toEqual(expect.objectContaining({ errorCount: 2, pageCount: 2 }));
+  });
+
+  it('开启 report 后应该上报会话开始与结束', () => {
+    const tracker = createTracker({
+      project: 'test-project',
+      session: { timeout: 1000, report: true }
+    });
+    tracker.setReporter(mockReporter);
+    const oldSession = tracker.getSession();
+    tracker.send(createMetric(MetricType.JS_ERROR));
+
+    // 会话过期在下一次活跃或读取会话时检测
+    vi.advanceTimersByTime(2000);
+    tracker.getSession();
+    tracker.flush();
+
+    const [metrics] = mockReporter.send.mock.calls[0];
+    const names = metrics.filter((m: any) => m.category === 'session').map((m: any) => m.name);
+    expect(names).toEqual(['session_start', 'session_end', 'session_start']);
+    expect(metrics.find((m: any) => m.name === 'session_end')).toEqual(expect.objectContaining({
+      sessionId: oldSession.id,
+      tags: { pageCount: 1, errorCount: 1 }
+    }));
+  });
+
+  it('使用 localStorage 时应该跨标签页共享会话', () => {
+    const first = createTracker({ project: 'test-project', session: { storage: 'localStorage' } });
+
+    expect(sessionStorage.length).toBe(0);
+    expect(JSON.parse(localStorage.getItem('web-moniter:test-project:session')!).id).toBe(first.getSession().id);
+  });
+});
@@ -8,7 +8,9 @@ import { defineConfig } from 'tsup';
 export default defineConfig({
   entry: ['src/index.ts'],
   format: ['cjs', 'esm'],
-  dts: true,
+  // 根 tsconfig 开启了 composite，tsup 生成声明时只把入口文件列入文件列表，
+  // 入口引用的其他源码文件会报 TS6307，因此声明构建关闭 composite（其他包同理）
+  dts: { compilerOptions: { composite: false } },
   clean: true,
   sourcemap: false,
   minify: true,
@@ -0,0 +1,134 @@
+import { BasePlugin } from '../base';
+
+interface BreadcrumbPluginOptions {
+  // 是否记录路由变化（history 与 hash），默认开启
+  navigation?: boolean;
+  // 是否记录点击，默认开启
+  click?: boolean;
+  // 点击元素文本的最大记录长度
+  maxTextLength?: number;
+}
+
+type HistoryMethod = 'pushState' | 'replaceState';
+
+/**
+ * 用户行为记录插件：自动记录路由变化与点击
+ */
+export class BreadcrumbPlugin extends BasePlugin<BreadcrumbPluginOptions> {
+  name = 'breadcrumb';
+  private lastHref = '';
+  private originalHistoryMethods: Partial<Record<HistoryMethod, History[HistoryMethod]>> = {};
+  private boundHandleLocationChange!: () => void;
+  private boundHandleClick!: (event: MouseEvent) => void;
+
+  protected init() {
+    this.lastHref = window.location.href;
+    this.boundHandleLocationChange = this.handleLocationChange.bind(this);
+    this.boundHandleClick = this.handleClick.bind(this);
+
+    if (this.options.navigation !== false) {
+      this.hookHistory();
+      window.addEventListener('popstate', this.boundHandleLocationChange);
+      window.addEventListener('hashchange', this.boundHandleLocationChange);
+    }
+
+    if (this.options.click !== false) {
+      // 捕获阶段监听，避免业务代码阻止冒泡后无法记录
+      document.addEventListener('click', this.boundHandleClick, true);
+    }
+  }
+
+  destroy() {
+    window.removeEventListener('popstate', this.boundHandleLocationChange);
+    window.removeEventListener('hashchange', this.boundHandleLocationChange);
+    document.removeEventListener('click', this.boundHandleClick, true);
+
+    // 恢复 history 方法
+    (Object.keys(this.originalHistoryMethods) as HistoryMethod[]).forEach(method => {
+      window.history[method] = this.originalHistoryMethods[method]!;
+    });
+    this.originalHistoryMethods = {};
+  }
+
+  /**
+   * 拦截 history.pushState / replaceState
+   */
+  private hookHistory() {
+    (['pushState', 'replaceState'] as HistoryMethod[]).forEach(method => {
+      const original = window.history[method];
+      this.originalHistoryMethods[method] = original;
+
+      const plugin = this;
+      window.history[method] = function (this: History, ...args: Parameters<History[HistoryMethod]>) {
+        const result = original.apply(this, args);
+        plugin.handleLocationChange();
+        return result;
+      };
+    });
+  }
+
+  /**
+   * 记录路由变化
+   */
+  private handleLocationChange() {
+    const to = window.location.href;
+    if (to === this.lastHref) {
+      return;
+    }
+
+    const from = this.lastHref;
+    this.lastHref = to;
+
+    this.coreInstance.addBreadcrumb({
+      type: 'navigation',
+      message: to,
+      data: { from, to }
+    });
+  }
+
+  /**
+   * 记录点击的元素
+   */
+  private handleClick(event: MouseEvent) {
+    const target = event.target;
+    if (!(target instanceof Element)) {
+      return;
+    }
+
+    const maxTextLength = this.options.maxTextLength ?? 50;
+    const text = (target.textContent || '').trim().replace(/\s+/g, ' ').slice(0, maxTextLength);
+
+    this.coreInstance.addBreadcrumb({
+      type: 'click',
+      category: 'ui',
+      message: this.getSelector(target),
+      data: text ? { text } : undefined
+    });
+  }
+
+  /**
+   * 生成元素的简短描述，例如 div#app > button.submit
+   */
+  private getSelector(element: Element): string {
+    const parts: string[] = [];
+    let current: Element | null = element;
+
+    // 最多向上取三层，足以定位又不会过长
+    while (current && parts.length < 3 && current !== document.body) {
+      let part = current.tagName.toLowerCase();
+      if (current.id) {
+        part += `#${current.id}`;
+      } else if (typeof current.className === 'string' && current.className.trim()) {
+        part += '.' + current.className.trim().split(/\s+/).join('.');
+      }
+      parts.unshift(part);
+
+      if (current.id) {
+        break;
+      }
+      current = current.parentElement;
+    }
+
+    return parts.join(' > ');
+  }
+}
@@ -1,4 +1,5 @@
 export { BasePlugin } from './base';
 export { PerformancePlugin } from './performance';
 export { JSErrorPlugin } from './js-error';
-export { NetworkPlugin } from './network';
\ No newline at end of file
+export { NetworkPlugin } from './network';
+export { BreadcrumbPlugin } from './breadcrumb';
\ No newline at end of file
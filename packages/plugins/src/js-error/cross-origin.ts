@@ -0,0 +1,43 @@
+// 浏览器对跨域脚本错误统一给出的信息，Chrome 中带有 "Uncaught " 前缀
+const SCRIPT_ERROR = /^(?:Uncaught )?Script error\.?$/i;
+// 诊断信息中最多列出的脚本数量
+const MAX_SCRIPTS = 20;
+
+/**
+ * 是否为跨域脚本产生的 "Script error."
+ * 浏览器会隐藏跨域脚本的错误详情，只保留固定的错误信息，没有文件、行号与错误对象
+ */
+export function isCrossOriginScriptError(message: string | undefined, filename?: string, error?: unknown): boolean {
+  return !!message && SCRIPT_ERROR.test(message.trim()) && !filename && !error;
+}
+
+/**
+ * 查找页面中未设置 crossorigin 属性的跨域脚本
+ * 这些脚本抛出的错误在浏览器中只会显示为 "Script error."，需要加上 crossorigin 并在 CDN 返回 Access-Control-Allow-Origin
+ */
+export function findScriptsWithoutCrossOrigin(doc: Document = document, pageUrl: string = location.href): string[] {
+  let origin: string;
+  try {
+    origin = new URL(pageUrl).origin;
+  } catch (e) {
+    return [];
+  }
+
+  const scripts: string[] = [];
+  const elements = doc.querySelectorAll<HTMLScriptElement>('script[src]');
+  for (let i = 0; i < elements.length && scripts.length < MAX_SCRIPTS; i++) {
+    const element = elements[i];
+    if (element.hasAttribute('crossorigin')) {
+      continue;
+    }
+    try {
+      const url = new URL(element.getAttribute('src')!, pageUrl);
+      if (/^https?:$/.test(url.protocol) && url.origin !== origin && !scripts.includes(url.href)) {
+        scripts.push(url.href);
+      }
+    } catch (e) {
+      // 无法解析的地址忽略
+    }
+  }
+  return scripts;
+}
@@ -0,0 +1,102 @@
+import { JSErrorMetric, StackFrame } from '@senmu/types';
+import { parseStack } from './stack-parser';
+
+/**
+ * 自定义指纹函数，返回字符串数组时会拼接后计算哈希，返回空值时使用默认指纹
+ */
+export type FingerprintFn = (
+  metric: JSErrorMetric,
+  defaultFingerprint: string
+) => string | string[] | null | undefined;
+
+// 参与计算指纹的栈帧数量
+const FINGERPRINT_FRAMES = 3;
+
+/**
+ * 去除错误信息中的数字、ID 与 URL，使同类错误得到相同的信息
+ */
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(/\b[a-z][a-z0-9+.-]*:\/\/[^\s'"()]+/gi, '<url>')
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<id>')
+    .replace(/\b(?:0x)?[0-9a-f]*\d[0-9a-f]*\b/gi, match => match.length >= 8 ? '<id>' : match)
+    .replace(/\d+(?:\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 去除地址中的域名、查询参数与构建哈希，例如 https://cdn.com/js/app.3f2a1b9c.js?v=1 → /js/app.js
+ */
+export function normalizeFilename(filename: string): string {
+  let path = filename.split(/[?#]/)[0];
+  const match = path.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]+(\/.*)?$/i);
+  if (match) {
+    path = match[1] || '/';
+  }
+  return path.replace(/[.-][0-9a-f]{6,}(?=\.\w+$)/i, '');
+}
+
+/**
+ * 取顶部的业务代码栈帧用于计算指纹
+ */
+export function getFingerprintFrames(frames: StackFrame[], limit = FINGERPRINT_FRAMES): string[] {
+  return frames
+    .filter(frame => frame.inApp)
+    .slice(0, limit)
+    .map(frame => {
+      const filename = normalizeFilename(frame.filename || '');
+      // 函数名可读时不带行列号，重新构建后仍能归为同一类；匿名或压缩后的短函数名需要行列号区分
+      const name = frame.function !== '<anonymous>' && frame.function.length > 2 ? frame.function : '';
+      return name ? `${name}@${filename}` : `${filename}:${frame.lineno ?? ''}:${frame.colno ?? ''}`;
+    });
+}
+
+/**
+ * 计算字符串哈希（cyrb53），返回 16 进制字符串
+ */
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * 计算错误指纹：错误类型、名称、规范化后的信息与顶部业务栈帧，没有栈帧时使用出错文件
+ */
+export function computeFingerprint(metric: JSErrorMetric): string {
+  const frames = getFingerprintFrames(metric.frames || parseStack(metric.stack));
+  const location = frames.length > 0
+    ? frames
+    : [metric.filename ? `${normalizeFilename(metric.filename)}:${metric.lineno ?? ''}` : ''];
+
+  return hashString([metric.errorType, metric.name, normalizeMessage(metric.message), ...location].join('\n'));
+}
+
+/**
+ * 计算最终指纹，优先使用自定义指纹函数的结果
+ */
+export function resolveFingerprint(metric: JSErrorMetric, custom?: FingerprintFn): string {
+  const defaultFingerprint = computeFingerprint(metric);
+  if (!custom) {
+    return defaultFingerprint;
+  }
+
+  try {
+    const result = custom(metric, defaultFingerprint);
+    if (Array.isArray(result)) {
+      return result.length > 0 ? hashString(result.join('\n')) : defaultFingerprint;
+    }
+    return result || defaultFingerprint;
+  } catch (err) {
+    console.warn('[web-moniter] 执行自定义指纹函数失败', err);
+    return defaultFingerprint;
+  }
+}
@@ -0,0 +1,116 @@
+import { StackFrame } from '@senmu/types';
+import { UrlPattern } from './stack-parser';
+
+/**
+ * 错误信息匹配规则，字符串按包含匹配
+ */
+export type MessagePattern = string | RegExp;
+
+/**
+ * 错误过滤配置
+ */
+export interface IgnoreOptions {
+  // 匹配错误信息时丢弃
+  ignoreErrors?: MessagePattern[];
+  // 错误文件或任一栈帧匹配时丢弃（内置的浏览器扩展规则只匹配错误文件与最顶层栈帧）
+  denyUrls?: UrlPattern[];
+  // 设置后只保留错误文件或任一栈帧匹配的错误
+  allowUrls?: UrlPattern[];
+  // 是否启用内置的噪音过滤规则，默认开启
+  defaultIgnores?: boolean;
+}
+
+/**
+ * 待判断的错误信息
+ */
+export interface IgnoreTarget {
+  message: string;
+  name?: string;
+  filename?: string;
+  frames?: StackFrame[];
+}
+
+// 内置忽略的错误信息：浏览器自身的无害警告与常见插件、广告脚本注入的错误
+export const DEFAULT_IGNORE_ERRORS: MessagePattern[] = [
+  /ResizeObserver loop (?:limit exceeded|completed with undelivered notifications)/,
+  'Non-Error promise rejection captured with value: Object Not Found Matching Id',
+  "Can't find variable: ZiteReader",
+  'jigsaw is not defined',
+  'ComboSearch is not defined',
+  'top.GLOBALS',
+  'originalCreateNotification',
+  'canvas.contentDocument',
+  'MyApp_RemoveAllHighlights',
+  'atomicFindClose',
+  'fb_xd_fragment',
+  'bmi_SafeAddOnload',
+  'EBCallBackMessageReceived',
+  'conduitPage'
+];
+
+// 内置忽略的文件地址：浏览器扩展与浏览器内部页面
+export const DEFAULT_DENY_URLS: UrlPattern[] = [
+  /^(?:chrome|moz|safari(?:-web)?|ms-browser)-extension:\/\//i,
+  /^(?:chrome|edge|opera|about|resource):\/\//i,
+  /^webkit-masked-url:\/\//i
+];
+
+function matches(value: string, patterns: (string | RegExp)[]): boolean {
+  return patterns.some(pattern =>
+    typeof pattern === 'string' ? value.includes(pattern) : pattern.test(value)
+  );
+}
+
+/**
+ * 收集错误文件与各栈帧的文件地址
+ */
+function collectUrls(target: IgnoreTarget): string[] {
+  const urls = (target.frames || [])
+    .map(frame => frame.filename)
+    .filter((filename): filename is string => !!filename);
+  if (target.filename) {
+    urls.unshift(target.filename);
+  }
+  return urls;
+}
+
+/**
+ * 收集错误的发生位置：错误文件与最顶层栈帧的文件地址
+ */
+function collectOriginUrls(target: IgnoreTarget): string[] {
+  const topFrame = target.frames && target.frames[0];
+  return [target.filename, topFrame && topFrame.filename]
+    .filter((filename): filename is string => !!filename);
+}
+
+/**
+ * 判断错误是否应该被丢弃
+ */
+export function shouldIgnoreError(target: IgnoreTarget, options: IgnoreOptions = {}): boolean {
+  const useDefaults = options.defaultIgnores !== false;
+  const ignoreErrors = [...(useDefaults ? DEFAULT_IGNORE_ERRORS : []), ...(options.ignoreErrors || [])];
+  const denyUrls = options.denyUrls || [];
+
+  // 同时匹配 "TypeError: xxx" 形式，便于按错误名称过滤
+  const messages = target.name ? [target.message, `${target.name}: ${target.message}`] : [target.message];
+  if (ignoreErrors.length > 0 && messages.some(message => matches(message, ignoreErrors))) {
+    return true;
+  }
+
+  // 浏览器扩展常包装 fetch、addEventListener 与定时器，出现在业务错误的调用栈中，内置规则只匹配错误的发生位置
+  if (useDefaults && collectOriginUrls(target).some(url => matches(url, DEFAULT_DENY_URLS))) {
+    return true;
+  }
+
+  const urls = collectUrls(target);
+  if (denyUrls.length > 0 && urls.some(url => matches(url, denyUrls))) {
+    return true;
+  }
+
+  // 没有任何地址信息时无法判断来源，不按 allowUrls 丢弃
+  if (options.allowUrls && options.allowUrls.length > 0 && urls.length > 0) {
+    return !urls.some(url => matches(url, options.allowUrls!));
+  }
+
+  return false;
+}
@@ -1,21 +1,59 @@
 import { BasePlugin } from '../index';
-import { MetricType, JSErrorMetric } from '@senmu/types';
+import { MetricType, JSErrorMetric, ErrorMechanism } from '@senmu/types';
+import { FingerprintFn, resolveFingerprint } from './fingerprint';
+import { UrlPattern, parseStack } from './stack-parser';
+import { IgnoreOptions, shouldIgnoreError } from './ignore';
+import { findScriptsWithoutCrossOrigin, isCrossOriginScriptError } from './cross-origin';
+import { collectCauses, getErrorCode, getTypeName, isErrorLike, serializeValue, stringifyShallow } from './serialize';
+import { InstrumentOptions, Instrumenter } from './instrument';
 
-interface JSErrorPluginOptions {
+interface JSErrorPluginOptions extends IgnoreOptions {
   // 是否捕获未处理的Promise错误
   enablePromiseError?: boolean;
   // 是否捕获资源加载错误
   enableResourceError?: boolean;
   // 是否捕获console.error
   captureConsoleError?: boolean;
+  // 是否将 console 输出记录为用户行为，默认开启
+  consoleBreadcrumbs?: boolean;
+  // console 行为记录信息的最大长度，对象参数只展开一层，默认 300
+  maxConsoleLength?: number;
   // 错误采样率
   errorSampleRate?: number;
+  // 自定义错误指纹，返回空值时使用默认指纹
+  fingerprint?: FingerprintFn;
+  // 匹配的文件视为业务代码，设置后其余文件均不是业务代码
+  inAppInclude?: UrlPattern[];
+  // 匹配的文件视为非业务代码（node_modules 与浏览器扩展默认排除）
+  inAppExclude?: UrlPattern[];
+  // 是否将同一页面的跨域 "Script error." 合并为一条数据，在页面隐藏、切换或销毁时上报
+  aggregateScriptErrors?: boolean;
+  // 记录 cause 链与 AggregateError 子错误的最大嵌套层数，默认 5，0 表示不记录
+  maxCauseDepth?: number;
+  // 自动 try/catch 包装定时器、动画帧、事件监听器与 Promise 回调，默认关闭
+  instrument?: boolean | InstrumentOptions;
 }
 
+const DEFAULT_MAX_CAUSE_DEPTH = 5;
+const DEFAULT_MAX_CONSOLE_LENGTH = 300;
+
 type ErrorReportParams = Partial<Omit<JSErrorMetric, 'type'> & {
   error?: Error;
 }>;
 
+type ConsoleLevel = 'debug' | 'info' | 'log' | 'warn' | 'error';
+
+const CONSOLE_LEVELS: ConsoleLevel[] = ['debug', 'info', 'log', 'warn', 'error'];
+
+// console 方法对应的行为记录级别
+const CONSOLE_BREADCRUMB_LEVELS: Record<ConsoleLevel, string> = {
+  debug: 'debug',
+  info: 'info',
+  log: 'info',
+  warn: 'warning',
+  error: 'error'
+};
+
 interface ResourceErrorParams {
   nodeName: string;
   url: string;
@@ -30,7 +68,11 @@ export class JSErrorPlugin extends BasePlugin<JSErrorPluginOptions> {
   name = 'js-error';
   private boundHandleError!: (event: ErrorEvent) => void;
   private boundHandleUnhandledRejection!: (event: PromiseRejectionEvent) => void;
-  private originalConsoleError!: typeof console.error;
+  private originalConsoleMethods: Partial<Record<ConsoleLevel, (...args: any[]) => void>> = {};
+  private boundFlushScriptErrors!: () => void;
+  private instrumenter: Instrumenter | null = null;
+  // 合并中的跨域脚本错误
+  private pendingScriptError: { pageUrl: string; message: string; count: number } | null = null;
 
   protected init() {
     const options = this.options;
@@ -38,6 +80,7 @@ export class JSErrorPlugin extends BasePlugin<JSErrorPluginOptions> {
     // 绑定错误处理函数（保存引用以便后续销毁时移除）
     this.boundHandleError = this.handleError.bind(this);
     this.boundHandleUnhandledRejection = this.handleUnhandledRejection.bind(this);
+    this.boundFlushScriptErrors = this.flushScriptErrors.bind(this);
 
     // 监听全局错误
     window.addEventListener('error', this.boundHandleError, true);
@@ -46,22 +89,40 @@ export class JSErrorPlugin extends BasePlugin<JSErrorPluginOptions> {
     if (options.enablePromiseError !== false) {
       window.addEventListener('unhandledrejection', this.boundHandleUnhandledRejection, true);
     }
+
+    if (options.aggregateScriptErrors) {
+      // 页面隐藏时立即上报，fetch 通道对小请求开启 keepalive，卸载期间不会被取消
+      window.addEventListener('pagehide', this.boundFlushScriptErrors);
+    }
     
-    // 拦截console.error
-    if (options.captureConsoleError) {
-      this.hookConsoleError();
+    // 拦截console
+    this.hookConsole();
+
+    if (options.instrument) {
+      this.instrumenter = new Instrumenter(
+        options.instrument === true ? {} : options.instrument,
+        this.handleInstrumentError.bind(this)
+      );
+      this.instrumenter.install();
     }
   }
 
   destroy() {
+    // 先卸载自动包装，恢复原始的 addEventListener 等方法
+    this.instrumenter?.uninstall();
+    this.instrumenter = null;
+
     // 移除事件监听
     window.removeEventListener('error', this.boundHandleError, true);
     window.removeEventListener('unhandledrejection', this.boundHandleUnhandledRejection, true);
+    window.removeEventListener('pagehide', this.boundFlushScriptErrors);
+    this.flushScriptErrors();
     
-    // 恢复console.error
-    if (this.originalConsoleError) {
-      console.error = this.originalConsoleError;
-    }
+    // 恢复console
+    (Object.keys(this.originalConsoleMethods) as ConsoleLevel[]).forEach(level => {
+      console[level] = this.originalConsoleMethods[level]!;
+    });
+    this.originalConsoleMethods = {};
   }
 
   /**
@@ -91,6 +152,17 @@ export class JSErrorPlugin extends BasePlugin<JSErrorPluginOptions> {
       }
     }
 
+    // 已由自动包装上报的错误
+    if (this.instrumenter?.isCaptured(event.error)) {
+      return;
+    }
+
+    // 跨域脚本错误没有任何详情，单独处理
+    if (isCrossOriginScriptError(event.message, event.filename, event.error)) {
+      this.handleScriptError(event.message);
+      return;
+    }
+
     // JS运行时错误
     this.reportJSError({
       message: event.message,
@@ -102,66 +174,150 @@ export class JSErrorPlugin extends BasePlugin<JSErrorPluginOptions> {
     });
   }
 
+  /**
+   * 处理跨域脚本错误：标记 crossOrigin 并附带未设置 crossorigin 的跨域脚本
+   */
+  private handleScriptError(message: string) {
+    if (!this.options.aggregateScriptErrors) {
+      this.reportScriptError(message, 1);
+      return;
+    }
+
+    const pageUrl = window.location.href;
+    // 单页应用切换页面后，先上报上一个页面的合并结果
+    if (this.pendingScriptError && this.pendingScriptError.pageUrl !== pageUrl) {
+      this.flushScriptErrors();
+    }
+    if (this.pendingScriptError) {
+      this.pendingScriptError.count++;
+    } else {
+      this.pendingScriptError = { pageUrl, message, count: 1 };
+    }
+  }
+
+  /**
+   * 上报合并中的跨域脚本错误
+   */
+  private flushScriptErrors() {
+    const pending = this.pendingScriptError;
+    this.pendingScriptError = null;
+    if (pending) {
+      this.reportScriptError(pending.message, pending.count, pending.pageUrl);
+    }
+  }
+
+  /**
+   * 上报跨域脚本错误，count 为合并的次数
+   */
+  private reportScriptError(message: string, count: number, pageUrl?: string) {
+    this.reportJSError({
+      message,
+      errorType: 'js',
+      tags: { crossOrigin: true },
+      crossOriginScripts: findScriptsWithoutCrossOrigin(document, pageUrl || window.location.href),
+      count: count > 1 ? count : undefined,
+      pageUrl
+    });
+  }
+
   /**
    * 处理未捕获的Promise错误
    */
   private handleUnhandledRejection(event: PromiseRejectionEvent) {
-    let message = 'Promise错误';
+    const reason = event.reason;
+    let message: string;
     let stack = '';
     let errorName = 'UnhandledRejection';
 
-    if (typeof event.reason === 'string') {
-      message = event.reason;
-    } else if (event.reason instanceof Error) {
-      const error = event.reason;
-      message = error.message || '未知Promise错误';
-      stack = error.stack || '';
-      errorName = error.name;
+    if (isErrorLike(reason)) {
+      message = reason.message || '未知Promise错误';
+      stack = reason.stack || '';
+      errorName = reason.name || 'Error';
+    } else if (typeof reason === 'string') {
+      message = reason;
+    } else {
+      // 对象、数字、undefined 等非 Error 的拒绝原因
+      message = `Promise 被拒绝，原因 (${getTypeName(reason)}): ${serializeValue(reason)}`;
     }
 
     this.reportJSError({
       message,
-      error: event.reason,
+      error: isErrorLike(reason) ? reason : undefined,
       stack,
       name: errorName,
-      errorType: 'promise'
+      errorType: 'promise',
+      mechanism: this.instrumenter?.getMechanism(reason)
     });
   }
 
   /**
-   * 拦截console.error
+   * 处理自动包装的回调中抛出的错误
    */
-  private hookConsoleError() {
-    // 保存原始的console.error
-    this.originalConsoleError = console.error;
-    
-    // 替换为自定义函数
-    console.error = <T extends any[]>(...args: T): void => {
-      // 调用原始console.error
-      this.originalConsoleError.apply(console, args);
+  private handleInstrumentError(error: unknown, mechanism: ErrorMechanism) {
+    this.reportJSError({
+      message: isErrorLike(error) ? error.message : serializeValue(error),
+      error: isErrorLike(error) ? error : undefined,
+      name: isErrorLike(error) ? error.name : getTypeName(error),
+      errorType: 'js',
+      mechanism
+    });
+  }
+
+  /**
+   * 拦截console：记录用户行为，按配置上报console.error
+   */
+  private hookConsole() {
+    const levels = CONSOLE_LEVELS.filter(level => {
+      if (level === 'error' && this.options.captureConsoleError) {
+        return true;
+      }
+      return this.options.consoleBreadcrumbs !== false;
+    });
+
+    levels.forEach(level => {
+      // 保存原始的console方法
+      const original = console[level];
+      this.originalConsoleMethods[level] = original;
       
-      // 上报错误
-      let message = args.map(arg => {
-        if (typeof arg === 'string') return arg;
-        if (arg instanceof Error) return arg.message;
-        try {
-          return JSON.stringify(arg);
-        } catch (e) {
-          return String(arg);
+      // 替换为自定义函数
+      console[level] = <T extends any[]>(...args: T): void => {
+        // 调用原始console方法
+        original.apply(console, args);
+        
+        const message = this.formatConsoleArgs(args);
+
+        // SDK 自身的日志不记录为用户行为
+        if (this.options.consoleBreadcrumbs !== false && !message.startsWith('[web-moniter]')) {
+          this.coreInstance.addBreadcrumb({
+            type: 'console',
+            category: level,
+            message,
+            level: CONSOLE_BREADCRUMB_LEVELS[level]
+          });
         }
-      }).join(' ');
 
-      let error: Error | undefined;
-      if (args[0] instanceof Error) {
-        error = args[0];
-      }
+        if (level === 'error' && this.options.captureConsoleError) {
+          // 上报错误
+          this.reportJSError({
+            message,
+            error: args[0] instanceof Error ? args[0] : undefined,
+            errorType: 'console'
+          });
+        }
+      };
+    });
+  }
 
-      this.reportJSError({
-        message,
-        error,
-        errorType: 'console'
-      });
-    };
+  /**
+   * 将console参数拼接为字符串，超出长度后不再处理剩余参数
+   */
+  private formatConsoleArgs(args: any[]): string {
+    const maxLength = this.options.maxConsoleLength ?? DEFAULT_MAX_CONSOLE_LENGTH;
+    let message = '';
+    for (let i = 0; i < args.length && message.length <= maxLength; i++) {
+      message += (i > 0 ? ' ' : '') + stringifyShallow(args[i], maxLength);
+    }
+    return message.length > maxLength ? `${message.slice(0, maxLength)}...` : message;
   }
 
   /**
@@ -174,19 +330,65 @@ export class JSErrorPlugin extends BasePlugin<JSErrorPluginOptions> {
       return;
     }
 
+    const stack = params.stack || params.error?.stack;
+    const frames = parseStack(stack, {
+      inAppInclude: this.options.inAppInclude,
+      inAppExclude: this.options.inAppExclude
+    });
+    // Promise 错误等没有位置信息时，使用栈顶的位置
+    const topFrame = frames.find(frame => frame.filename && frame.lineno !== undefined);
+
+    if (shouldIgnoreError({
+      message: params.message || '',
+      name: params.name || params.error?.name,
+      filename: params.filename,
+      frames
+    }, this.options)) {
+      return;
+    }
+
     const errorMetric: JSErrorMetric = {
       type: MetricType.JS_ERROR,
       message: params?.message || '',
       name: params.name || (params.error?.name || 'Error'),
-      stack: params.stack || params.error?.stack,
+      stack,
       errorType: params?.errorType || 'js',
-      filename: params.filename,
-      lineno: params.lineno,
-      colno: params.colno,
+      filename: params.filename || topFrame?.filename,
+      lineno: params.lineno || topFrame?.lineno,
+      colno: params.colno || topFrame?.colno,
       timestamp: Date.now(),
       project: this.coreInstance.getConfig().project,
-      pageUrl: window?.location?.href
+      pageUrl: params.pageUrl || window?.location?.href
     };
+    if (frames.length > 0) {
+      errorMetric.frames = frames;
+    }
+    if (params.tags) {
+      errorMetric.tags = params.tags;
+    }
+    if (params.crossOriginScripts) {
+      errorMetric.crossOriginScripts = params.crossOriginScripts;
+    }
+    if (params.count) {
+      errorMetric.count = params.count;
+    }
+    if (params.mechanism) {
+      errorMetric.mechanism = params.mechanism;
+    }
+    if (params.error) {
+      const code = getErrorCode(params.error);
+      if (code !== undefined) {
+        errorMetric.code = code;
+      }
+      const causes = collectCauses(params.error, this.options.maxCauseDepth ?? DEFAULT_MAX_CAUSE_DEPTH, {
+        inAppInclude: this.options.inAppInclude,
+        inAppExclude: this.options.inAppExclude
+      });
+      if (causes.length > 0) {
+        errorMetric.causes = causes;
+      }
+    }
+    errorMetric.fingerprint = resolveFingerprint(errorMetric, this.options.fingerprint);
 
     this.coreInstance.send(errorMetric, true);
   }
@@ -202,3 +404,14 @@ export class JSErrorPlugin extends BasePlugin<JSErrorPluginOptions> {
     });
   }
 }
+
+export type { FingerprintFn } from './fingerprint';
+export { computeFingerprint, normalizeMessage } from './fingerprint';
+export type { UrlPattern, InAppOptions } from './stack-parser';
+export type { MessagePattern, IgnoreOptions } from './ignore';
+export { shouldIgnoreError, DEFAULT_IGNORE_ERRORS, DEFAULT_DENY_URLS } from './ignore';
+export { isCrossOriginScriptError, findScriptsWithoutCrossOrigin } from './cross-origin';
+export { collectCauses, serializeValue, stringifyShallow, isErrorLike } from './serialize';
+export type { InstrumentOptions } from './instrument';
+export { Instrumenter } from './instrument';
+export { parseStack, isInApp } from './stack-parser';
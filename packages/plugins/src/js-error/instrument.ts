@@ -0,0 +1,316 @@
+import { ErrorMechanism } from '@senmu/types';
+
+/**
+ * 自动 try/catch 包装配置，默认全部开启
+ */
+export interface InstrumentOptions {
+  // 包装 setTimeout 与 setInterval 回调
+  timers?: boolean;
+  // 包装 requestAnimationFrame 回调
+  animationFrame?: boolean;
+  // 包装 EventTarget.prototype.addEventListener 注册的监听器
+  eventListeners?: boolean;
+  // 包装 Promise.prototype.then 回调，只记录上下文，由 unhandledrejection 上报
+  promises?: boolean;
+}
+
+/**
+ * 包装回调捕获到错误时的回调
+ */
+export type InstrumentErrorHandler = (error: unknown, mechanism: ErrorMechanism) => void;
+
+type AnyFunction = (...args: any[]) => any;
+type Listener = EventListenerOrEventListenerObject;
+// 对象上值为函数的属性名
+type MethodKey<T> = { [K in keyof T]: T[K] extends AnyFunction ? K : never }[keyof T];
+
+const ANONYMOUS = '<anonymous>';
+
+function getFunctionName(fn: unknown): string {
+  return (typeof fn === 'function' && fn.name) || ANONYMOUS;
+}
+
+/**
+ * 描述事件目标，如 window、document、button#submit.primary
+ */
+export function describeTarget(target: unknown): string {
+  if (typeof window !== 'undefined' && target === window) {
+    return 'window';
+  }
+  if (typeof document !== 'undefined' && target === document) {
+    return 'document';
+  }
+  if (typeof Element !== 'undefined' && target instanceof Element) {
+    const id = target.id ? `#${target.id}` : '';
+    const classes = Array.from(target.classList).slice(0, 2).map(name => `.${name}`).join('');
+    return `${target.tagName.toLowerCase()}${id}${classes}`;
+  }
+  return (target as object | null)?.constructor?.name || 'unknown';
+}
+
+/**
+ * 自动包装定时器、动画帧、事件监听器与 Promise 回调，捕获带有完整上下文的错误
+ * 包装后的回调捕获错误后会重新抛出，不改变原有行为
+ */
+export class Instrumenter {
+  private options: Required<InstrumentOptions>;
+  private onError: InstrumentErrorHandler;
+  private installed = false;
+  // 被替换的原始方法，卸载时恢复
+  private restores: Array<() => void> = [];
+  // 原始监听器 -> 包装后的监听器，不记录事件目标，避免持有已分离的 DOM 节点
+  private wrappedListeners: WeakMap<object, AnyFunction> = new WeakMap();
+  // removeEventListener 是否已替换，卸载后仍保留
+  private removeListenerPatched = false;
+  // 已上报的错误，避免 window.onerror 再次上报
+  private captured: WeakSet<object> = new WeakSet();
+  private capturedPrimitive: { value: unknown } | null = null;
+  // Promise 回调中抛出的错误及其上下文
+  private mechanisms: WeakMap<object, ErrorMechanism> = new WeakMap();
+
+  constructor(options: InstrumentOptions, onError: InstrumentErrorHandler) {
+    this.options = {
+      timers: true,
+      animationFrame: true,
+      eventListeners: true,
+      promises: true,
+      ...options
+    };
+    this.onError = onError;
+  }
+
+  /**
+   * 安装包装
+   */
+  install() {
+    if (this.installed || typeof window === 'undefined') {
+      return;
+    }
+    this.installed = true;
+
+    if (this.options.timers) {
+      this.wrapTimer('setTimeout');
+      this.wrapTimer('setInterval');
+    }
+    if (this.options.animationFrame && typeof window.requestAnimationFrame === 'function') {
+      this.wrapAnimationFrame();
+    }
+    if (this.options.eventListeners && typeof EventTarget !== 'undefined') {
+      this.wrapEventTarget();
+    }
+    if (this.options.promises && typeof Promise !== 'undefined') {
+      this.wrapPromise();
+    }
+  }
+
+  /**
+   * 卸载包装：恢复原始方法，仍在注册中的包装监听器不再上报错误
+   */
+  uninstall() {
+    if (!this.installed) {
+      return;
+    }
+    this.installed = false;
+
+    this.restores.reverse().forEach(restore => restore());
+    this.restores = [];
+  }
+
+  /**
+   * 错误是否已由包装回调上报
+   */
+  isCaptured(error: unknown): boolean {
+    if (error && (typeof error === 'object' || typeof error === 'function')) {
+      return this.captured.has(error as object);
+    }
+    if (this.capturedPrimitive && this.capturedPrimitive.value === error) {
+      this.capturedPrimitive = null;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 获取 Promise 回调中抛出的错误的上下文
+   */
+  getMechanism(error: unknown): ErrorMechanism | undefined {
+    return error && typeof error === 'object' ? this.mechanisms.get(error) : undefined;
+  }
+
+  /**
+   * 包装回调，出错时上报并标记，然后重新抛出
+   * @private
+   */
+  private wrap(fn: AnyFunction, getMechanism: (thisArg: any, args: any[]) => ErrorMechanism): AnyFunction {
+    const instrumenter = this;
+    return function (this: any, ...args: any[]) {
+      try {
+        return fn.apply(this, args);
+      } catch (err) {
+        // 卸载后仍在等待执行的回调不再上报
+        if (instrumenter.installed) {
+          instrumenter.markCaptured(err);
+          instrumenter.onError(err, getMechanism(this, args));
+        }
+        throw err;
+      }
+    };
+  }
+
+  private markCaptured(error: unknown) {
+    if (error && (typeof error === 'object' || typeof error === 'function')) {
+      this.captured.add(error as object);
+    } else {
+      this.capturedPrimitive = { value: error };
+    }
+  }
+
+  /**
+   * 替换对象上的方法，并记录恢复操作
+   * @private
+   */
+  private replace<T extends object, K extends MethodKey<T>>(target: T, key: K, replacement: AnyFunction) {
+    const hadOwn = Object.prototype.hasOwnProperty.call(target, key);
+    const original = target[key];
+    // 包装函数无法表达原方法的全部重载（如 Node 与 DOM 合并后的 setTimeout），按原方法的类型写入
+    target[key] = replacement as T[K];
+    this.restores.push(() => {
+      if (hadOwn) {
+        target[key] = original;
+      } else {
+        delete target[key];
+      }
+    });
+  }
+
+  private wrapTimer(name: 'setTimeout' | 'setInterval') {
+    const original = window[name] as AnyFunction;
+    const instrumenter = this;
+    this.replace(window, name, function (this: any, handler: unknown, delay?: number, ...args: any[]) {
+      const callback = typeof handler === 'function'
+        ? instrumenter.wrap(handler as AnyFunction, () => ({
+          type: name,
+          handler: getFunctionName(handler),
+          data: { delay: delay || 0 }
+        }))
+        : handler;
+      return original.call(this, callback, delay, ...args);
+    });
+  }
+
+  private wrapAnimationFrame() {
+    const original = window.requestAnimationFrame;
+    const instrumenter = this;
+    this.replace(window, 'requestAnimationFrame', function (this: any, callback: FrameRequestCallback) {
+      const wrapped = typeof callback === 'function'
+        ? instrumenter.wrap(callback, () => ({ type: 'requestAnimationFrame', handler: getFunctionName(callback) }))
+        : callback;
+      return original.call(this, wrapped as FrameRequestCallback);
+    });
+  }
+
+  private wrapEventTarget() {
+    const proto = EventTarget.prototype;
+    const originalAdd = proto.addEventListener;
+    const originalRemove = proto.removeEventListener;
+    const instrumenter = this;
+
+    this.replace(proto, 'addEventListener', function (
+      this: EventTarget,
+      type: string,
+      listener: Listener | null,
+      options?: boolean | AddEventListenerOptions
+    ) {
+      if (!listener || (typeof listener !== 'function' && typeof listener.handleEvent !== 'function')) {
+        return originalAdd.call(this, type, listener, options);
+      }
+
+      return originalAdd.call(this, type, instrumenter.getWrappedListener(listener), options);
+    });
+
+    // 卸载后仍可能有包装监听器注册在事件目标上，需要通过原始监听器找到并移除，
+    // 因此 removeEventListener 的替换不随卸载恢复，重复安装时也只替换一次
+    if (this.removeListenerPatched) {
+      return;
+    }
+    this.removeListenerPatched = true;
+    proto.removeEventListener = function (
+      this: EventTarget,
+      type: string,
+      listener: Listener | null,
+      options?: boolean | EventListenerOptions
+    ) {
+      const wrapped = listener ? instrumenter.wrappedListeners.get(listener) : undefined;
+      if (wrapped) {
+        originalRemove.call(this, type, wrapped, options);
+      }
+      // 同时移除原始监听器，兼容安装包装之前注册的监听器
+      return originalRemove.call(this, type, listener, options);
+    };
+  }
+
+  /**
+   * 获取监听器对应的包装函数，同一个监听器只包装一次，保证重复注册与移除的行为不变
+   * @private
+   */
+  private getWrappedListener(listener: Listener): AnyFunction {
+    let wrapped = this.wrappedListeners.get(listener);
+    if (!wrapped) {
+      const handler = typeof listener === 'function'
+        ? listener
+        : function (this: any, ...args: any[]) {
+          return (listener.handleEvent as AnyFunction).apply(listener, args);
+        };
+      wrapped = this.wrap(handler as AnyFunction, (thisArg, args) => {
+        const event = args[0] as Event | undefined;
+        return {
+          type: 'addEventListener',
+          handler: typeof listener === 'function' ? getFunctionName(listener) : getFunctionName(listener.handleEvent),
+          data: {
+            eventType: event?.type,
+            target: describeTarget(event?.currentTarget || thisArg)
+          }
+        };
+      });
+      this.wrappedListeners.set(listener, wrapped);
+    }
+    return wrapped;
+  }
+
+  /**
+   * 包装 Promise.then 回调：错误通常会被后续的 catch 处理，这里只记录上下文，不直接上报
+   * @private
+   */
+  private wrapPromise() {
+    const originalThen = Promise.prototype.then;
+    const instrumenter = this;
+
+    const wrapCallback = (callback: unknown, kind: string) => {
+      if (typeof callback !== 'function') {
+        return callback;
+      }
+      return function (this: any, ...args: any[]) {
+        try {
+          return callback.apply(this, args);
+        } catch (err) {
+          if (instrumenter.installed && err && typeof err === 'object' && !instrumenter.mechanisms.has(err)) {
+            instrumenter.mechanisms.set(err, {
+              type: 'Promise.then',
+              handler: getFunctionName(callback),
+              data: { callback: kind }
+            });
+          }
+          throw err;
+        }
+      };
+    };
+
+    this.replace(Promise.prototype, 'then', function (this: Promise<any>, onFulfilled?: unknown, onRejected?: unknown) {
+      return originalThen.call(
+        this,
+        wrapCallback(onFulfilled, 'onFulfilled') as AnyFunction,
+        wrapCallback(onRejected, 'onRejected') as AnyFunction
+      );
+    });
+  }
+}
@@ -0,0 +1,198 @@
+import { ErrorCause } from '@senmu/types';
+import { InAppOptions, parseStack } from './stack-parser';
+
+// 序列化后的最大长度
+const MAX_VALUE_LENGTH = 1000;
+// 每个 AggregateError 最多记录的子错误数量
+const MAX_AGGREGATE_ERRORS = 10;
+// 浅层序列化时嵌套字符串的最大长度
+const MAX_NESTED_STRING_LENGTH = 100;
+
+/**
+ * 是否为错误对象，包括跨 iframe 的 Error 与部分环境中不继承 Error 的 DOMException
+ */
+export function isErrorLike(value: unknown): value is Error {
+  if (value instanceof Error) {
+    return true;
+  }
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const tag = Object.prototype.toString.call(value);
+  const isDOMException = typeof DOMException !== 'undefined' && value instanceof DOMException;
+  return (tag === '[object Error]' || tag === '[object DOMException]' || isDOMException)
+    && typeof (value as Error).message === 'string';
+}
+
+/**
+ * 获取错误码，DOMException 的旧式 code 为 0 时忽略
+ */
+export function getErrorCode(error: unknown): string | number | undefined {
+  const code = error && typeof error === 'object' ? (error as { code?: unknown }).code : undefined;
+  if (typeof code === 'string' && code) {
+    return code;
+  }
+  return typeof code === 'number' && code !== 0 ? code : undefined;
+}
+
+/**
+ * 将任意值序列化为可读的字符串，用于非 Error 的 Promise 拒绝原因等
+ */
+export function serializeValue(value: unknown): string {
+  let result: string;
+  if (value === undefined) {
+    result = 'undefined';
+  } else if (value === null) {
+    result = 'null';
+  } else if (typeof value === 'string') {
+    result = value;
+  } else if (typeof value === 'function') {
+    result = `[function ${value.name || 'anonymous'}]`;
+  } else if (typeof value !== 'object') {
+    result = String(value);
+  } else if (typeof Event !== 'undefined' && value instanceof Event) {
+    result = `${getTypeName(value)}: ${value.type}`;
+  } else {
+    try {
+      const json = JSON.stringify(value);
+      result = json === '{}' ? `${getTypeName(value)} {}` : json;
+    } catch (e) {
+      // 循环引用等无法序列化的对象
+      result = Object.prototype.toString.call(value);
+    }
+  }
+  return result.length > MAX_VALUE_LENGTH ? `${result.slice(0, MAX_VALUE_LENGTH)}...` : result;
+}
+
+/**
+ * 将值浅层序列化为不超过 maxLength 的字符串，用于 console 行为记录等高频场景
+ * 对象与数组只展开一层，嵌套的值只记录类型，超出长度后停止遍历
+ */
+export function stringifyShallow(value: unknown, maxLength: number): string {
+  let result: string;
+  if (typeof value === 'string') {
+    result = value;
+  } else if (isErrorLike(value)) {
+    result = value.message;
+  } else if (Array.isArray(value)) {
+    result = joinShallow(value.length, i => describeNested(value[i]), '[', ']', maxLength);
+  } else if (value && typeof value === 'object') {
+    const keys: string[] = [];
+    for (const key in value) {
+      keys.push(key);
+      // 只需要足够填满长度的属性
+      if (keys.length >= maxLength) {
+        break;
+      }
+    }
+    result = joinShallow(keys.length, i => {
+      const key = keys[i];
+      return `${JSON.stringify(key)}:${describeNested((value as Record<string, unknown>)[key])}`;
+    }, '{', '}', maxLength);
+  } else {
+    result = serializeValue(value);
+  }
+  return result.length > maxLength ? `${result.slice(0, maxLength)}...` : result;
+}
+
+function joinShallow(count: number, describe: (index: number) => string, open: string, close: string, maxLength: number): string {
+  let result = open;
+  for (let i = 0; i < count; i++) {
+    if (result.length > maxLength) {
+      return result;
+    }
+    result += (i > 0 ? ',' : '') + describe(i);
+  }
+  return result + close;
+}
+
+function describeNested(value: unknown): string {
+  if (value === undefined) {
+    return 'undefined';
+  }
+  if (value === null || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > MAX_NESTED_STRING_LENGTH ? `${value.slice(0, MAX_NESTED_STRING_LENGTH)}...` : value);
+  }
+  if (typeof value === 'function') {
+    return `[function ${value.name || 'anonymous'}]`;
+  }
+  if (Array.isArray(value)) {
+    return `[Array(${value.length})]`;
+  }
+  return `[${getTypeName(value)}]`;
+}
+
+/**
+ * 获取值的类型名称，如 Object、Array、CustomEvent
+ */
+export function getTypeName(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value !== 'object') {
+    return typeof value;
+  }
+  const ctor = (value as object).constructor;
+  return ctor && ctor.name ? ctor.name : 'Object';
+}
+
+/**
+ * 收集错误的 cause 链与 AggregateError 子错误（深度优先），maxDepth 为最大嵌套层数
+ */
+export function collectCauses(error: unknown, maxDepth: number, options: InAppOptions = {}): ErrorCause[] {
+  const causes: ErrorCause[] = [];
+  const seen = new Set<unknown>([error]);
+
+  const visit = (value: unknown, depth: number) => {
+    if (depth > maxDepth || !value || typeof value !== 'object') {
+      return;
+    }
+
+    const children: Array<[unknown, ErrorCause['relation']]> = [];
+    if ('cause' in value && (value as { cause?: unknown }).cause !== undefined) {
+      children.push([(value as { cause?: unknown }).cause, 'cause']);
+    }
+    const errors = (value as { errors?: unknown }).errors;
+    if (Array.isArray(errors) && isErrorLike(value)) {
+      errors.slice(0, MAX_AGGREGATE_ERRORS).forEach(item => children.push([item, 'aggregate']));
+    }
+
+    for (const [child, relation] of children) {
+      // 避免循环引用
+      if (seen.has(child)) {
+        continue;
+      }
+      seen.add(child);
+      causes.push(toCause(child, relation, depth, options));
+      visit(child, depth + 1);
+    }
+  };
+
+  if (maxDepth > 0) {
+    visit(error, 1);
+  }
+  return causes;
+}
+
+function toCause(value: unknown, relation: ErrorCause['relation'], depth: number, options: InAppOptions): ErrorCause {
+  if (!isErrorLike(value)) {
+    return { relation, depth, name: getTypeName(value), message: serializeValue(value) };
+  }
+
+  const cause: ErrorCause = { relation, depth, name: value.name || 'Error', message: value.message || '' };
+  const code = getErrorCode(value);
+  if (code !== undefined) {
+    cause.code = code;
+  }
+  if (value.stack) {
+    cause.stack = value.stack;
+    const frames = parseStack(value.stack, options);
+    if (frames.length > 0) {
+      cause.frames = frames;
+    }
+  }
+  return cause;
+}
@@ -0,0 +1,172 @@
+import { StackFrame } from '@senmu/types';
+
+/**
+ * URL 匹配规则，字符串按包含匹配
+ */
+export type UrlPattern = string | RegExp;
+
+/**
+ * 业务代码判断配置
+ */
+export interface InAppOptions {
+  // 匹配时视为业务代码，设置后只有匹配的文件才是业务代码
+  inAppInclude?: UrlPattern[];
+  // 匹配时视为非业务代码，优先于 inAppInclude
+  inAppExclude?: UrlPattern[];
+}
+
+const ANONYMOUS = '<anonymous>';
+// 最多解析的栈帧数量，避免递归溢出时堆栈过长
+const MAX_FRAMES = 50;
+
+// 默认视为非业务代码：第三方依赖、浏览器扩展与内置代码
+const DEFAULT_NOT_IN_APP = /node_modules|^(?:chrome|moz|safari(?:-web)?)-extension:|^<anonymous>$|^native$|^\[native code\]$/;
+
+// 位置信息 "file:line:col"，行列号可选
+const LOCATION = /^(.*?)(?::(\d+))?(?::(\d+))?$/;
+// V8 eval 位置 "eval at fn (file:1:2), <anonymous>:3:4"，取 eval 调用处的位置
+const V8_EVAL_LOCATION = /\((\S+?):(\d+):(\d+)\)/;
+// SpiderMonkey eval 位置 "file line 3 > eval:1:2" 或 "file line 3 > Function:1:2"
+const GECKO_EVAL_LOCATION = /^(\S+) line (\d+)(?: > (?:eval|Function)(?: line \d+)?)* > (?:eval|Function)/;
+// 带协议的地址或文件路径
+const URL_LIKE = /^[a-z][\w+.-]*:|[\\/]/i;
+// JavaScriptCore 中只有地址、没有函数名和 @ 的栈帧
+const JSC_URL_ONLY = /^[a-z][\w+.-]*:\S+:\d+(?::\d+)?$/i;
+
+interface ParsedLocation {
+  filename?: string;
+  lineno?: number;
+  colno?: number;
+}
+
+/**
+ * 解析位置字符串
+ */
+function parseLocation(location: string): ParsedLocation {
+  const match = location.match(LOCATION);
+  if (!match || !match[1]) {
+    return {};
+  }
+  return {
+    filename: match[1],
+    lineno: match[2] ? Number(match[2]) : undefined,
+    colno: match[3] ? Number(match[3]) : undefined
+  };
+}
+
+/**
+ * 解析 V8（Chrome、Edge、Node）格式的栈帧：
+ *   at fn (file:1:2) / at file:1:2 / at async fn (file:1:2) / at eval (eval at fn (file:1:2), <anonymous>:3:4)
+ */
+function parseV8Line(line: string): Omit<StackFrame, 'inApp'> | null {
+  const match = line.match(/^\s*at\s+(?:async\s+)?(.*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const rest = match[1].trim();
+  const parenIndex = rest.indexOf(' (');
+  if (parenIndex === -1 || !rest.endsWith(')')) {
+    // 没有函数名的栈帧，整体是位置
+    return { function: ANONYMOUS, ...parseLocation(rest) };
+  }
+
+  const fn = rest.slice(0, parenIndex);
+  const location = rest.slice(parenIndex + 2, -1);
+
+  if (location.startsWith('eval at ')) {
+    const evalMatch = location.match(V8_EVAL_LOCATION);
+    return {
+      function: fn || ANONYMOUS,
+      ...(evalMatch
+        ? { filename: evalMatch[1], lineno: Number(evalMatch[2]), colno: Number(evalMatch[3]) }
+        : {})
+    };
+  }
+
+  const parsed = parseLocation(location);
+  // "at async Promise.all (index 0)" 等没有行号、也不是地址的位置为引擎内置代码
+  if (parsed.lineno === undefined && parsed.filename && parsed.filename !== ANONYMOUS && !URL_LIKE.test(parsed.filename)) {
+    return { function: fn || ANONYMOUS, filename: 'native' };
+  }
+  return { function: fn || ANONYMOUS, ...parsed };
+}
+
+/**
+ * 解析 SpiderMonkey（Firefox）与 JavaScriptCore（Safari）格式的栈帧：
+ *   fn@file:1:2 / @file:1:2 / fn/<@file:1:2 / fn@file line 3 > eval:1:2 / forEach@[native code] / file:1:2
+ */
+function parseGeckoLine(line: string): Omit<StackFrame, 'inApp'> | null {
+  const atIndex = line.indexOf('@');
+  if (atIndex === -1) {
+    // Safari 的匿名函数栈帧只有地址
+    const location = line.trim();
+    return JSC_URL_ONLY.test(location) ? { function: ANONYMOUS, ...parseLocation(location) } : null;
+  }
+
+  // Firefox 会在闭包函数名后追加 "/<"
+  const fn = line.slice(0, atIndex).trim().replace(/(?:\/<)+$/, '');
+  const location = line.slice(atIndex + 1).trim();
+
+  const evalMatch = location.match(GECKO_EVAL_LOCATION);
+  if (evalMatch) {
+    return { function: fn || 'eval', filename: evalMatch[1], lineno: Number(evalMatch[2]) };
+  }
+
+  // 错误信息中也可能出现 @（如邮箱），位置必须以行列号或 [native code] 结尾
+  if (!/:\d+$|^\[native code\]$/.test(location)) {
+    return null;
+  }
+
+  return { function: fn || ANONYMOUS, ...parseLocation(location) };
+}
+
+/**
+ * 判断文件是否为业务代码
+ */
+export function isInApp(filename: string | undefined, options: InAppOptions = {}): boolean {
+  if (!filename) {
+    return false;
+  }
+
+  const matches = (patterns?: UrlPattern[]) => (patterns || []).some(pattern =>
+    typeof pattern === 'string' ? filename.includes(pattern) : pattern.test(filename)
+  );
+
+  if (DEFAULT_NOT_IN_APP.test(filename) || matches(options.inAppExclude)) {
+    return false;
+  }
+  if (options.inAppInclude && options.inAppInclude.length > 0) {
+    return matches(options.inAppInclude);
+  }
+  return true;
+}
+
+/**
+ * 将错误堆栈解析为栈帧数组（从栈顶开始），无法识别的行会被忽略
+ */
+export function parseStack(stack: string | undefined, options: InAppOptions = {}): StackFrame[] {
+  if (!stack) {
+    return [];
+  }
+
+  const frames: StackFrame[] = [];
+  for (const line of stack.split('\n')) {
+    if (frames.length >= MAX_FRAMES) {
+      break;
+    }
+
+    // 过长的行通常是压缩后的代码片段，不是栈帧
+    if (line.length > 1024) {
+      continue;
+    }
+
+    const frame = /^\s*at\s/.test(line) ? parseV8Line(line) : parseGeckoLine(line);
+    if (!frame) {
+      continue;
+    }
+
+    frames.push({ ...frame, inApp: isInApp(frame.filename, options) });
+  }
+  return frames;
+}
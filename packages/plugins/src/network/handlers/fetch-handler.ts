@@ -4,7 +4,8 @@ import {
   extractContent, 
   getFullUrl, 
   generateTraceId, 
-  safeJsonParse 
+  safeJsonParse,
+  getReportUrls
 } from '../utils';
 import { getGlobalObject } from '../../utils/global';
 
@@ -219,8 +220,8 @@ export class FetchHandler {
     
     // 过滤监控上报请求
     if (options.ignoreMoniterRequest !== false) {
-      const reportUrl = this.coreInstance.getConfig().reportUrl;
-      if (reportUrl && url.includes(reportUrl)) {
+      const reportUrls = getReportUrls(this.coreInstance.getConfig());
+      if (reportUrls.some(reportUrl => url.includes(reportUrl))) {
         return true;
       }
     }
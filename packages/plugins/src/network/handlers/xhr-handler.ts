@@ -5,6 +5,7 @@ import {
   getFullUrl, 
   generateTraceId, 
   safeJsonParse,
+  getReportUrls,
   isMTSIForbidRequest
 } from '../utils';
 import { RequestCompleteCallback } from './fetch-handler';
@@ -269,8 +270,8 @@ export class XHRHandler {
     
     // 过滤监控上报请求
     if (options.ignoreMoniterRequest !== false) {
-      const reportUrl = this.coreInstance.getConfig().reportUrl;
-      if (reportUrl && url.includes(reportUrl)) {
+      const reportUrls = getReportUrls(this.coreInstance.getConfig());
+      if (reportUrls.some(reportUrl => url.includes(reportUrl))) {
         return true;
       }
     }
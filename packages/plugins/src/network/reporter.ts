@@ -19,6 +19,9 @@ export class NetworkReporter {
    */
   reportNetworkRequest(params: NetworkRequestInfo): void {
     try {
+      // 先记录用户行为，随后上报的超时、请求错误也能携带该记录
+      this.addBreadcrumb(params);
+      
       // 构建API指标数据
       const apiMetric: APIMetric = {
         type: MetricType.API,
@@ -102,6 +105,30 @@ export class NetworkReporter {
     }
   }
 
+  /**
+   * 将请求记录为用户行为
+   */
+  private addBreadcrumb(params: NetworkRequestInfo): void {
+    try {
+      if (this.coreInstance.addBreadcrumb) {
+        this.coreInstance.addBreadcrumb({
+          type: 'http',
+          category: params.type,
+          message: `${params.method} ${params.url}`,
+          level: params.success ? 'info' : 'error',
+          data: {
+            url: params.url,
+            method: params.method,
+            status: params.status,
+            duration: params.duration
+          }
+        });
+      }
+    } catch (e) {
+      console.error('记录请求行为失败:', e);
+    }
+  }
+
   /**
    * 向错误系统上报错误
    */
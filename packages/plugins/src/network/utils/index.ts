@@ -1,3 +1,5 @@
+import { MoniterConfig } from '@senmu/types';
+
 /**
  * 生成追踪ID
  */
@@ -144,4 +146,17 @@ export function isMTSIForbidRequest(type: 'xhr' | 'fetch', info: any, shouldIgno
   }
 
   return false;
-}
\ No newline at end of file
+}
+
+/**
+ * 获取所有监控上报地址（包括按类型路由的地址）
+ */
+export function getReportUrls(config: MoniterConfig): string[] {
+  const urls = config.reportUrl ? [config.reportUrl] : [];
+  Object.values(config.routes || {}).forEach(route => {
+    if (route?.url) {
+      urls.push(route.url);
+    }
+  });
+  return urls;
+}
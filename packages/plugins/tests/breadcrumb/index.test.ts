@@ -0,0 +1,106 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BreadcrumbPlugin } from '../../src/breadcrumb';
+import { createTracker } from '@senmu/core';
+
+describe('BreadcrumbPlugin', () => {
+  let plugin: BreadcrumbPlugin;
+  let tracker: ReturnType<typeof createTracker>;
+  
+  // 保存全局对象以便在测试后恢复
+  const originalPushState = window.history.pushState;
+  const originalReplaceState = window.history.replaceState;
+  
+  beforeEach(() => {
+    plugin = new BreadcrumbPlugin();
+    tracker = createTracker({
+      project: 'test-project',
+      debug: false
+    });
+    document.body.innerHTML = '';
+  });
+  
+  afterEach(() => {
+    plugin.destroy();
+    tracker.destroy();
+    window.history.replaceState(null, '', '/');
+    vi.restoreAllMocks();
+  });
+  
+  describe('路由变化', () => {
+    it('应该记录 pushState 与 replaceState', () => {
+      plugin.setUp(tracker, {});
+      
+      window.history.pushState(null, '', '/list');
+      window.history.replaceState(null, '', '/detail');
+      
+      expect(tracker.getBreadcrumbs()).toEqual([
+        expect.objectContaining({
+          type: 'navigation',
+          data: { from: 'http://localhost:3000/', to: 'http://localhost:3000/list' }
+        }),
+        expect.objectContaining({
+          type: 'navigation',
+          data: { from: 'http://localhost:3000/list', to: 'http://localhost:3000/detail' }
+        })
+      ]);
+    });
+    
+    it('地址未变化时不应该记录', () => {
+      plugin.setUp(tracker, {});
+      
+      window.history.replaceState({ a: 1 }, '');
+      
+      expect(tracker.getBreadcrumbs()).toEqual([]);
+    });
+    
+    it('应该记录 hashchange', () => {
+      plugin.setUp(tracker, {});
+      
+      window.history.replaceState(null, '', '/#/home');
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+      
+      expect(tracker.getBreadcrumbs()).toHaveLength(1);
+      expect(tracker.getBreadcrumbs()[0].data?.to).toBe('http://localhost:3000/#/home');
+    });
+    
+    it('销毁时应该恢复 history 方法', () => {
+      plugin.setUp(tracker, {});
+      expect(window.history.pushState).not.toBe(originalPushState);
+      
+      plugin.destroy();
+      
+      expect(window.history.pushState).toBe(originalPushState);
+      expect(window.history.replaceState).toBe(originalReplaceState);
+    });
+  });
+  
+  describe('点击', () => {
+    it('应该记录被点击元素的选择器与文本', () => {
+      document.body.innerHTML = '<div id="app"><form class="pay"><button class="btn primary">  立即\n支付 </button></form></div>';
+      plugin.setUp(tracker, {});
+      
+      document.querySelector('button')!.click();
+      
+      expect(tracker.getBreadcrumbs()).toEqual([
+        expect.objectContaining({
+          type: 'click',
+          category: 'ui',
+          message: 'div#app > form.pay > button.btn.primary',
+          data: { text: '立即 支付' }
+        })
+      ]);
+    });
+    
+    it('关闭 click 后不应该记录点击', () => {
+      document.body.innerHTML = '<button>提交</button>';
+      plugin.setUp(tracker, { click: false });
+      
+      document.querySelector('button')!.click();
+      
+      expect(tracker.getBreadcrumbs()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import { isCrossOriginScriptError, findScriptsWithoutCrossOrigin } from '../../src/js-error/cross-origin';
+
+describe('跨域脚本错误', () => {
+  afterEach(() => {
+    document.head.innerHTML = '';
+    document.body.innerHTML = '';
+  });
+
+  it('应该识别没有详情的 "Script error."', () => {
+    expect(isCrossOriginScriptError('Script error.')).toBe(true);
+    expect(isCrossOriginScriptError('Uncaught Script error')).toBe(true);
+    expect(isCrossOriginScriptError('Script error.', 'https://test.com/app.js')).toBe(false);
+    expect(isCrossOriginScriptError('Script error.', '', new Error('x'))).toBe(false);
+    expect(isCrossOriginScriptError('Script error happened in app')).toBe(false);
+  });
+
+  it('应该列出未设置 crossorigin 的跨域脚本', () => {
+    document.head.innerHTML = [
+      '<script src="https://cdn.other.com/lib.js"></script>',
+      '<script src="https://cdn.other.com/safe.js" crossorigin="anonymous"></script>',
+      '<script src="/static/app.js"></script>',
+      '<script src="https://test.com/static/vendor.js"></script>',
+      '<script src="data:text/javascript,1"></script>'
+    ].join('');
+    document.body.innerHTML = '<script src="//ads.other.com/ad.js?v=1"></script><script>inline()</script>';
+
+    expect(findScriptsWithoutCrossOrigin(document, 'https://test.com/page')).toEqual([
+      'https://cdn.other.com/lib.js',
+      'https://ads.other.com/ad.js?v=1'
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { MetricType, JSErrorMetric } from '@senmu/types';
+import {
+  normalizeMessage,
+  normalizeFilename,
+  getFingerprintFrames,
+  computeFingerprint,
+  resolveFingerprint
+} from '../../src/js-error/fingerprint';
+import { parseStack } from '../../src/js-error/stack-parser';
+
+const createMetric = (extra: Partial<JSErrorMetric> = {}): JSErrorMetric => ({
+  type: MetricType.JS_ERROR,
+  message: "Cannot read properties of undefined (reading 'name')",
+  name: 'TypeError',
+  errorType: 'js',
+  stack: [
+    "TypeError: Cannot read properties of undefined (reading 'name')",
+    '    at renderUser (https://cdn.test.com/js/app.3f2a1b9c.js?v=2:10:15)',
+    '    at https://cdn.test.com/js/app.3f2a1b9c.js:20:5',
+    '    at Object.invoke (https://cdn.test.com/node_modules/react-dom/index.js:1:1)'
+  ].join('\n'),
+  timestamp: Date.now(),
+  project: 'test-project',
+  pageUrl: 'https://test.com',
+  ...extra
+});
+
+describe('错误指纹', () => {
+  it('应该去除错误信息中的数字、ID 与 URL', () => {
+    expect(normalizeMessage('订单 12345 加载失败: https://api.test.com/order/12345?x=1'))
+      .toBe('订单 <n> 加载失败: <url>');
+    expect(normalizeMessage('user 550e8400-e29b-41d4-a716-446655440000 not found'))
+      .toBe('user <id> not found');
+    expect(normalizeMessage('token 9f86d081884c7d65 expired')).toBe('token <id> expired');
+  });
+
+  it('应该去除文件地址中的域名、参数与构建哈希', () => {
+    expect(normalizeFilename('https://cdn.test.com/js/app.3f2a1b9c.js?v=2#x')).toBe('/js/app.js');
+    expect(normalizeFilename('webpack:///src/index.ts')).toBe('webpack:///src/index.ts');
+  });
+
+  it('应该只提取业务代码栈帧', () => {
+    expect(getFingerprintFrames(parseStack(createMetric().stack))).toEqual([
+      'renderUser@/js/app.js',
+      '/js/app.js:20:5'
+    ]);
+
+    const gecko = 'renderUser@https://test.com/app.js:10:15\n@moz-extension://abc/content.js:1:1';
+    expect(getFingerprintFrames(parseStack(gecko))).toEqual(['renderUser@/app.js']);
+  });
+
+  it('同类错误在数据与构建变化后应该得到相同指纹', () => {
+    const a = createMetric();
+    const b = createMetric({
+      message: "Cannot read properties of undefined (reading 'name')",
+      stack: a.stack!.replace(/3f2a1b9c/g, '8d7e6f5a').replace('?v=2', '')
+    });
+    const c = createMetric({ message: 'Order 1 failed' });
+    const d = createMetric({ name: 'RangeError' });
+
+    expect(computeFingerprint(a)).toBe(computeFingerprint(b));
+    expect(computeFingerprint(a)).not.toBe(computeFingerprint(c));
+    expect(computeFingerprint(a)).not.toBe(computeFingerprint(d));
+  });
+
+  it('没有堆栈时应该使用出错文件区分', () => {
+    const a = createMetric({ stack: undefined, errorType: 'resource', filename: 'https://test.com/a.png' });
+    const b = createMetric({ stack: undefined, errorType: 'resource', filename: 'https://test.com/b.png' });
+
+    expect(computeFingerprint(a)).not.toBe(computeFingerprint(b));
+  });
+
+  it('应该支持自定义指纹函数', () => {
+    const metric = createMetric();
+    const defaultFingerprint = computeFingerprint(metric);
+
+    expect(resolveFingerprint(metric, () => 'custom')).toBe('custom');
+    expect(resolveFingerprint(metric, m => [m.name, 'checkout'])).toEqual(expect.any(String));
+    expect(resolveFingerprint(metric, m => [m.name, 'checkout'])).not.toBe(defaultFingerprint);
+    expect(resolveFingerprint(metric, () => undefined)).toBe(defaultFingerprint);
+    expect(resolveFingerprint(metric, (_, fp) => `${fp}-v2`)).toBe(`${defaultFingerprint}-v2`);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { shouldIgnoreError } from '../../src/js-error/ignore';
+import { parseStack } from '../../src/js-error/stack-parser';
+
+describe('错误过滤', () => {
+  describe('ignoreErrors', () => {
+    it('默认应该忽略已知的噪音错误', () => {
+      expect(shouldIgnoreError({ message: 'ResizeObserver loop limit exceeded' })).toBe(true);
+      expect(shouldIgnoreError({ message: 'ResizeObserver loop completed with undelivered notifications.' })).toBe(true);
+      expect(shouldIgnoreError({ message: 'Uncaught ReferenceError: fb_xd_fragment is not defined' })).toBe(true);
+      expect(shouldIgnoreError({ message: 'Cannot read properties of undefined' })).toBe(false);
+    });
+
+    it('关闭 defaultIgnores 后不应该使用内置规则', () => {
+      expect(shouldIgnoreError({ message: 'ResizeObserver loop limit exceeded' }, { defaultIgnores: false })).toBe(false);
+    });
+
+    it('应该按字符串包含或正则匹配错误信息', () => {
+      const options = { ignoreErrors: ['网络超时', /^Loading chunk \d+ failed/] };
+
+      expect(shouldIgnoreError({ message: '请求失败: 网络超时' }, options)).toBe(true);
+      expect(shouldIgnoreError({ message: 'Loading chunk 12 failed.' }, options)).toBe(true);
+      expect(shouldIgnoreError({ message: 'chunk failed' }, options)).toBe(false);
+    });
+
+    it('应该支持匹配 "错误名称: 错误信息" 形式', () => {
+      expect(shouldIgnoreError({ message: 'x is not a function', name: 'TypeError' }, { ignoreErrors: [/^TypeError: /] })).toBe(true);
+    });
+  });
+
+  describe('denyUrls', () => {
+    it('默认应该忽略浏览器扩展中的错误', () => {
+      expect(shouldIgnoreError({ message: 'boom', filename: 'chrome-extension://abc/content.js' })).toBe(true);
+      expect(shouldIgnoreError({ message: 'boom', filename: 'moz-extension://abc/content.js' })).toBe(true);
+      expect(shouldIgnoreError(
+        { message: 'boom', filename: 'chrome-extension://abc/content.js' },
+        { defaultIgnores: false }
+      )).toBe(false);
+    });
+
+    it('内置规则只匹配错误文件与最顶层栈帧，不应该因为扩展包装了回调而忽略业务错误', () => {
+      const wrapped = parseStack([
+        'TypeError: boom',
+        '    at render (https://test.com/app.js:10:5)',
+        '    at listener (chrome-extension://abc/inject.js:1:100)'
+      ].join('\n'));
+      const fromExtension = parseStack([
+        'TypeError: boom',
+        '    at inject (chrome-extension://abc/inject.js:1:100)',
+        '    at https://test.com/app.js:10:5'
+      ].join('\n'));
+
+      expect(shouldIgnoreError({ message: 'boom', frames: wrapped })).toBe(false);
+      expect(shouldIgnoreError({ message: 'boom', frames: wrapped, filename: 'https://test.com/app.js' })).toBe(false);
+      expect(shouldIgnoreError({ message: 'boom', frames: fromExtension })).toBe(true);
+      // 自定义规则仍匹配任一栈帧
+      expect(shouldIgnoreError({ message: 'boom', frames: wrapped }, { denyUrls: [/^chrome-extension:/] })).toBe(true);
+    });
+
+    it('错误文件或任一栈帧匹配时应该忽略', () => {
+      const frames = parseStack([
+        'Error: boom',
+        '    at track (https://analytics.example.com/sdk.js:1:100)',
+        '    at https://test.com/app.js:10:5'
+      ].join('\n'));
+      const options = { denyUrls: ['analytics.example.com'] };
+
+      expect(shouldIgnoreError({ message: 'boom', frames }, options)).toBe(true);
+      expect(shouldIgnoreError({ message: 'boom', filename: 'https://analytics.example.com/sdk.js' }, options)).toBe(true);
+      expect(shouldIgnoreError({ message: 'boom', filename: 'https://test.com/app.js' }, options)).toBe(false);
+    });
+  });
+
+  describe('allowUrls', () => {
+    it('只保留错误文件或栈帧匹配的错误', () => {
+      const options = { allowUrls: [/^https:\/\/test\.com\//] };
+      const frames = parseStack([
+        'Error: boom',
+        '    at https://cdn.other.com/lib.js:1:1',
+        '    at https://test.com/app.js:10:5'
+      ].join('\n'));
+
+      expect(shouldIgnoreError({ message: 'boom', frames }, options)).toBe(false);
+      expect(shouldIgnoreError({ message: 'boom', filename: 'https://cdn.other.com/lib.js' }, options)).toBe(true);
+    });
+
+    it('没有地址信息时不应该按 allowUrls 忽略', () => {
+      expect(shouldIgnoreError({ message: 'boom' }, { allowUrls: ['test.com'] })).toBe(false);
+    });
+
+    it('denyUrls 应该优先于 allowUrls', () => {
+      expect(shouldIgnoreError(
+        { message: 'boom', filename: 'https://test.com/vendor/ads.js' },
+        { allowUrls: ['test.com'], denyUrls: ['/vendor/'] }
+      )).toBe(true);
+    });
+  });
+});
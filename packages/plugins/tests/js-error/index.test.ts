@@ -315,4 +315,300 @@ describe('JSErrorPlugin', () => {
       expect(console.error).toBe(originalConsoleError);
     });
   });
+
+  describe('错误指纹', () => {
+    it('上报的错误应该携带指纹', () => {
+      plugin.setUp(tracker, {});
+      window.dispatchEvent(new ErrorEvent('error', { message: '测试错误 42', error: new Error('测试错误 42') }));
+
+      expect(tracker.send).toHaveBeenCalledWith(
+        expect.objectContaining({ fingerprint: expect.any(String) }),
+        true
+      );
+    });
+
+    it('应该使用自定义指纹函数', () => {
+      plugin.setUp(tracker, { fingerprint: metric => ['checkout', metric.name] });
+      window.dispatchEvent(new ErrorEvent('error', { message: '测试错误' }));
+      const first = vi.mocked(tracker.send).mock.calls[0][0] as any;
+
+      window.dispatchEvent(new ErrorEvent('error', { message: '另一个错误' }));
+      const second = vi.mocked(tracker.send).mock.calls[1][0] as any;
+
+      expect(first.fingerprint).toBe(second.fingerprint);
+    });
+  });
+
+  describe('堆栈解析', () => {
+    it('上报的错误应该携带解析后的栈帧', () => {
+      plugin.setUp(tracker, { inAppExclude: ['vendor'] });
+      const error = new Error('测试错误');
+      error.stack = [
+        'Error: 测试错误',
+        '    at render (https://test.com/app.js:10:15)',
+        '    at https://test.com/vendor.js:1:1'
+      ].join('\n');
+
+      // JSDOM 不支持 PromiseRejectionEvent，使用自定义事件模拟
+      const event = new CustomEvent('unhandledrejection');
+      Object.defineProperty(event, 'reason', { value: error });
+      window.dispatchEvent(event);
+
+      expect(tracker.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          frames: [
+            { function: 'render', filename: 'https://test.com/app.js', lineno: 10, colno: 15, inApp: true },
+            { function: '<anonymous>', filename: 'https://test.com/vendor.js', lineno: 1, colno: 1, inApp: false }
+          ],
+          // Promise 错误使用栈顶位置
+          filename: 'https://test.com/app.js',
+          lineno: 10,
+          colno: 15
+        }),
+        true
+      );
+    });
+  });
+
+  describe('错误过滤', () => {
+    it('应该丢弃匹配 ignoreErrors 与 denyUrls 的错误', () => {
+      plugin.setUp(tracker, {
+        ignoreErrors: ['可忽略'],
+        denyUrls: ['third-party.com']
+      });
+
+      window.dispatchEvent(new ErrorEvent('error', { message: '可忽略的错误', filename: 'https://test.com/app.js' }));
+      window.dispatchEvent(new ErrorEvent('error', { message: '第三方错误', filename: 'https://third-party.com/sdk.js' }));
+      window.dispatchEvent(new ErrorEvent('error', { message: 'ResizeObserver loop limit exceeded' }));
+      expect(tracker.send).not.toHaveBeenCalled();
+
+      window.dispatchEvent(new ErrorEvent('error', { message: '业务错误', filename: 'https://test.com/app.js' }));
+      expect(tracker.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('关闭 defaultIgnores 后应该上报内置规则中的错误', () => {
+      plugin.setUp(tracker, { defaultIgnores: false });
+
+      window.dispatchEvent(new ErrorEvent('error', { message: 'ResizeObserver loop limit exceeded' }));
+
+      expect(tracker.send).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'ResizeObserver loop limit exceeded' }),
+        true
+      );
+    });
+  });
+
+  describe('错误原因与拒绝原因', () => {
+    const dispatchRejection = (reason: unknown) => {
+      // JSDOM 不支持 PromiseRejectionEvent，使用自定义事件模拟
+      const event = new CustomEvent('unhandledrejection');
+      Object.defineProperty(event, 'reason', { value: reason });
+      window.dispatchEvent(event);
+    };
+
+    it('上报的错误应该携带 cause 链与错误码', () => {
+      plugin.setUp(tracker, { maxCauseDepth: 1 });
+      const error = new Error('加载失败', {
+        cause: new DOMException('The operation was aborted.', 'AbortError')
+      });
+
+      dispatchRejection(error);
+
+      expect(tracker.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: '加载失败',
+          causes: [expect.objectContaining({ relation: 'cause', name: 'AbortError', code: 20 })]
+        }),
+        true
+      );
+    });
+
+    it('DOMException 应该保留名称与错误码', () => {
+      plugin.setUp(tracker, {});
+
+      dispatchRejection(new DOMException('Permission denied', 'NotAllowedError'));
+      dispatchRejection(new DOMException('Timed out', 'TimeoutError'));
+
+      expect(tracker.send).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'NotAllowedError', message: 'Permission denied' }),
+        true
+      );
+      expect(tracker.send).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'TimeoutError', code: 23 }),
+        true
+      );
+    });
+
+    it('非 Error 的拒绝原因应该序列化为可读信息', () => {
+      plugin.setUp(tracker, {});
+
+      dispatchRejection({ code: 401, msg: '未登录' });
+      dispatchRejection(404);
+      dispatchRejection(undefined);
+
+      const messages = vi.mocked(tracker.send).mock.calls.map(([metric]) => (metric as { message: string }).message);
+      expect(messages).toEqual([
+        'Promise 被拒绝，原因 (Object): {"code":401,"msg":"未登录"}',
+        'Promise 被拒绝，原因 (number): 404',
+        'Promise 被拒绝，原因 (undefined): undefined'
+      ]);
+    });
+  });
+
+  describe('自动包装', () => {
+    it('应该上报监听器中的错误并附带上下文，且不重复上报', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      plugin.setUp(tracker, { instrument: true });
+      const button = document.createElement('button');
+      document.body.appendChild(button);
+
+      button.addEventListener('click', function onClick() {
+        throw new Error('点击处理失败');
+      });
+      button.dispatchEvent(new Event('click'));
+
+      expect(tracker.send).toHaveBeenCalledTimes(1);
+      expect(tracker.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: '点击处理失败',
+          mechanism: { type: 'addEventListener', handler: 'onClick', data: { eventType: 'click', target: 'button' } }
+        }),
+        true
+      );
+      button.remove();
+    });
+
+    it('未开启时不应该包装，销毁时应该恢复原始方法', () => {
+      const originalAdd = EventTarget.prototype.addEventListener;
+      const originalThen = Promise.prototype.then;
+
+      plugin.setUp(tracker, {});
+      expect(EventTarget.prototype.addEventListener).toBe(originalAdd);
+      plugin.destroy();
+
+      plugin = new JSErrorPlugin();
+      plugin.setUp(tracker, { instrument: { promises: true, eventListeners: true } });
+      expect(EventTarget.prototype.addEventListener).not.toBe(originalAdd);
+      expect(Promise.prototype.then).not.toBe(originalThen);
+
+      plugin.destroy();
+      expect(EventTarget.prototype.addEventListener).toBe(originalAdd);
+      expect(Promise.prototype.then).toBe(originalThen);
+    });
+  });
+
+  describe('跨域脚本错误', () => {
+    beforeEach(() => {
+      document.head.innerHTML = '<script src="https://cdn.other.com/lib.js"></script>';
+    });
+
+    afterEach(() => {
+      document.head.innerHTML = '';
+    });
+
+    it('应该标记 crossOrigin 并附带未设置 crossorigin 的脚本', () => {
+      plugin.setUp(tracker, {});
+
+      window.dispatchEvent(new ErrorEvent('error', { message: 'Script error.' }));
+
+      expect(tracker.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Script error.',
+          tags: { crossOrigin: true },
+          crossOriginScripts: ['https://cdn.other.com/lib.js']
+        }),
+        true
+      );
+    });
+
+    it('开启 aggregateScriptErrors 时应该按页面合并上报', () => {
+      plugin.setUp(tracker, { aggregateScriptErrors: true });
+
+      window.dispatchEvent(new ErrorEvent('error', { message: 'Script error.' }));
+      window.dispatchEvent(new ErrorEvent('error', { message: 'Script error.' }));
+      window.dispatchEvent(new ErrorEvent('error', { message: 'Script error.' }));
+      expect(tracker.send).not.toHaveBeenCalled();
+
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(tracker.send).toHaveBeenCalledTimes(1);
+      expect(tracker.send).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Script error.', count: 3, pageUrl: 'https://test.com/page' }),
+        true
+      );
+    });
+
+    it('页面切换时应该先上报上一个页面的合并结果', () => {
+      plugin.setUp(tracker, { aggregateScriptErrors: true });
+
+      window.dispatchEvent(new ErrorEvent('error', { message: 'Script error.' }));
+      Object.defineProperty(window, 'location', {
+        configurable: true,
+        value: { href: 'https://test.com/other' }
+      });
+      window.dispatchEvent(new ErrorEvent('error', { message: 'Script error.' }));
+
+      expect(tracker.send).toHaveBeenCalledTimes(1);
+      expect(tracker.send).toHaveBeenCalledWith(
+        expect.objectContaining({ pageUrl: 'https://test.com/page' }),
+        true
+      );
+
+      // 销毁时上报剩余的合并结果
+      plugin.destroy();
+      expect(tracker.send).toHaveBeenCalledTimes(2);
+      expect(tracker.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({ pageUrl: 'https://test.com/other' }),
+        true
+      );
+    });
+  });
+
+  describe('用户行为记录', () => {
+    it('应该将 console 输出记录为用户行为', () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      plugin.setUp(tracker, {});
+
+      console.log('用户点击', { id: 1 });
+      console.warn('[web-moniter] 内部日志');
+
+      expect(logSpy).toHaveBeenCalledWith('用户点击', { id: 1 });
+      expect(tracker.getBreadcrumbs()).toEqual([
+        expect.objectContaining({ type: 'console', category: 'log', message: '用户点击 {"id":1}', level: 'info' })
+      ]);
+    });
+
+    it('console 行为记录应该限制长度，对象参数只展开一层', () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      plugin.setUp(tracker, { maxConsoleLength: 50 });
+      const toJSON = vi.fn();
+
+      console.log('x'.repeat(100));
+      console.log('响应', { list: [1, 2, 3], user: { name: 'senmu', toJSON } });
+
+      const [long, shallow] = tracker.getBreadcrumbs();
+      expect(long.message).toBe(`${'x'.repeat(50)}...`);
+      expect(shallow.message).toBe('响应 {"list":[Array(3)],"user":[Object]}');
+      // 嵌套对象不会被序列化
+      expect(toJSON).not.toHaveBeenCalled();
+    });
+
+    it('关闭 consoleBreadcrumbs 时不应该拦截 console', () => {
+      const originalLog = console.log;
+      plugin.setUp(tracker, { consoleBreadcrumbs: false });
+
+      expect(console.log).toBe(originalLog);
+      expect(console.error).toBe(originalConsoleError);
+    });
+
+    it('销毁时应该恢复所有 console 方法', () => {
+      const originalLog = console.log;
+      plugin.setUp(tracker, {});
+      expect(console.log).not.toBe(originalLog);
+
+      plugin.destroy();
+
+      expect(console.log).toBe(originalLog);
+    });
+  });
 });
\ No newline at end of file
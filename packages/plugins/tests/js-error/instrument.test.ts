@@ -0,0 +1,193 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, beforeEach, afterEach, onTestFinished } from 'vitest';
+import { Instrumenter, describeTarget } from '../../src/js-error/instrument';
+
+describe('Instrumenter', () => {
+  let onError: ReturnType<typeof vi.fn>;
+  let instrumenter: Instrumenter;
+  const originalAdd = EventTarget.prototype.addEventListener;
+  const originalRemove = EventTarget.prototype.removeEventListener;
+  const originalThen = Promise.prototype.then;
+  // 阻止监听器中重新抛出的错误被测试框架视为未处理错误
+  const preventError = (event: ErrorEvent) => event.preventDefault();
+
+  beforeEach(() => {
+    onError = vi.fn();
+    // JSDOM 会将监听器中未捕获的错误输出到 console.error
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    window.addEventListener('error', preventError);
+  });
+
+  afterEach(() => {
+    instrumenter?.uninstall();
+    window.removeEventListener('error', preventError);
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  describe('定时器与动画帧', () => {
+    it('应该包装 setTimeout、setInterval 与 requestAnimationFrame 回调', () => {
+      const callbacks: Function[] = [];
+      const fakeTimer = vi.fn((callback: Function) => {
+        callbacks.push(callback);
+        return 1;
+      });
+      vi.spyOn(window, 'setTimeout').mockImplementation(fakeTimer as any);
+      vi.spyOn(window, 'setInterval').mockImplementation(fakeTimer as any);
+      const originalRAF = window.requestAnimationFrame;
+      window.requestAnimationFrame = fakeTimer as any;
+
+      instrumenter = new Instrumenter({}, onError);
+      instrumenter.install();
+      onTestFinished(() => {
+        window.requestAnimationFrame = originalRAF;
+      });
+
+      const error = new Error('定时器错误');
+      window.setTimeout(function poll() { throw error; }, 100);
+      window.setInterval(() => { throw new Error('interval'); }, 50);
+      window.requestAnimationFrame(function draw() { throw 'frame'; });
+
+      expect(() => callbacks[0]()).toThrow(error);
+      expect(() => callbacks[1]()).toThrow('interval');
+      expect(() => callbacks[2]()).toThrow();
+
+      expect(onError.mock.calls.map(([, mechanism]) => mechanism)).toEqual([
+        { type: 'setTimeout', handler: 'poll', data: { delay: 100 } },
+        { type: 'setInterval', handler: '<anonymous>', data: { delay: 50 } },
+        { type: 'requestAnimationFrame', handler: 'draw' }
+      ]);
+      expect(instrumenter.isCaptured(error)).toBe(true);
+      // 非对象错误只标记一次
+      expect(instrumenter.isCaptured('frame')).toBe(true);
+      expect(instrumenter.isCaptured('frame')).toBe(false);
+    });
+
+    it('字符串形式的定时器不应该被包装', () => {
+      const fakeTimer = vi.fn(() => 1);
+      vi.spyOn(window, 'setTimeout').mockImplementation(fakeTimer as any);
+      instrumenter = new Instrumenter({}, onError);
+      instrumenter.install();
+
+      window.setTimeout('void 0', 10);
+
+      expect(fakeTimer).toHaveBeenCalledWith('void 0', 10);
+    });
+
+    it('卸载后应该恢复原始定时器', () => {
+      const originalSetTimeout = window.setTimeout;
+      instrumenter = new Instrumenter({}, onError);
+      instrumenter.install();
+      expect(window.setTimeout).not.toBe(originalSetTimeout);
+
+      instrumenter.uninstall();
+
+      expect(window.setTimeout).toBe(originalSetTimeout);
+    });
+  });
+
+  describe('事件监听器', () => {
+    it('应该捕获监听器中的错误并记录事件上下文', () => {
+      instrumenter = new Instrumenter({ timers: false, promises: false }, onError);
+      instrumenter.install();
+      document.body.innerHTML = '<button id="submit" class="primary large extra">提交</button>';
+      const button = document.getElementById('submit')!;
+      const error = new Error('点击错误');
+
+      button.addEventListener('click', function onSubmit() { throw error; });
+      button.dispatchEvent(new Event('click'));
+
+      expect(onError).toHaveBeenCalledWith(error, {
+        type: 'addEventListener',
+        handler: 'onSubmit',
+        data: { eventType: 'click', target: 'button#submit.primary.large' }
+      });
+    });
+
+    it('应该支持 handleEvent 对象并能正常移除', () => {
+      instrumenter = new Instrumenter({}, onError);
+      instrumenter.install();
+      const target = new EventTarget();
+      const listener = { handleEvent: vi.fn() };
+
+      target.addEventListener('ping', listener);
+      target.dispatchEvent(new Event('ping'));
+      target.removeEventListener('ping', listener);
+      target.dispatchEvent(new Event('ping'));
+
+      expect(listener.handleEvent).toHaveBeenCalledTimes(1);
+      expect(listener.handleEvent.mock.instances[0]).toBe(listener);
+    });
+
+    it('卸载后包装监听器不再上报，之后仍可通过原始监听器移除', () => {
+      instrumenter = new Instrumenter({}, onError);
+      instrumenter.install();
+      const target = new EventTarget();
+      const listener = vi.fn(() => { throw new Error('x'); });
+      const onceListener = vi.fn();
+
+      target.addEventListener('ping', listener);
+      target.addEventListener('ping', onceListener, { once: true });
+      target.dispatchEvent(new Event('ping'));
+      onError.mockClear();
+
+      instrumenter.uninstall();
+      expect(EventTarget.prototype.addEventListener).toBe(originalAdd);
+      // 不记录事件目标，removeEventListener 需保留替换才能移除仍注册着的包装监听器
+      expect(EventTarget.prototype.removeEventListener).not.toBe(originalRemove);
+
+      target.dispatchEvent(new Event('ping'));
+      // 卸载后不再上报，once 监听器不会再次执行
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(onceListener).toHaveBeenCalledTimes(1);
+      expect(onError).not.toHaveBeenCalled();
+
+      target.removeEventListener('ping', listener);
+      target.dispatchEvent(new Event('ping'));
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('重新安装后应该仍能移除监听器', () => {
+      instrumenter = new Instrumenter({}, onError);
+      instrumenter.install();
+      instrumenter.uninstall();
+      instrumenter.install();
+      const target = new EventTarget();
+      const listener = vi.fn();
+
+      target.addEventListener('ping', listener);
+      target.removeEventListener('ping', listener);
+      target.dispatchEvent(new Event('ping'));
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Promise 回调', () => {
+    it('应该记录 then 回调中错误的上下文而不直接上报', async () => {
+      instrumenter = new Instrumenter({}, onError);
+      instrumenter.install();
+      const error = new Error('加载失败');
+
+      await expect(Promise.resolve().then(function loadUser() { throw error; })).rejects.toBe(error);
+
+      expect(onError).not.toHaveBeenCalled();
+      expect(instrumenter.getMechanism(error)).toEqual({
+        type: 'Promise.then',
+        handler: 'loadUser',
+        data: { callback: 'onFulfilled' }
+      });
+
+      instrumenter.uninstall();
+      expect(Promise.prototype.then).toBe(originalThen);
+    });
+  });
+
+  it('应该描述事件目标', () => {
+    expect(describeTarget(window)).toBe('window');
+    expect(describeTarget(document)).toBe('document');
+    expect(describeTarget(new XMLHttpRequest())).toBe('XMLHttpRequest');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect } from 'vitest';
+import { collectCauses, serializeValue, stringifyShallow, isErrorLike, getErrorCode } from '../../src/js-error/serialize';
+
+const withStack = (error: Error, fn: string) => {
+  error.stack = `${error.name}: ${error.message}\n    at ${fn} (https://test.com/app.js:1:1)`;
+  return error;
+};
+
+describe('错误序列化', () => {
+  describe('serializeValue', () => {
+    it('应该将非 Error 值转换为可读的字符串', () => {
+      expect(serializeValue(undefined)).toBe('undefined');
+      expect(serializeValue(null)).toBe('null');
+      expect(serializeValue(404)).toBe('404');
+      expect(serializeValue(false)).toBe('false');
+      expect(serializeValue({ code: 1, msg: '失败' })).toBe('{"code":1,"msg":"失败"}');
+      expect(serializeValue(new Map())).toBe('Map {}');
+      expect(serializeValue(new CustomEvent('timeout'))).toBe('CustomEvent: timeout');
+    });
+
+    it('循环引用与超长内容应该安全处理', () => {
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+
+      expect(serializeValue(circular)).toBe('[object Object]');
+      expect(serializeValue('x'.repeat(2000))).toHaveLength(1003);
+    });
+  });
+
+  describe('stringifyShallow', () => {
+    it('应该只展开一层对象与数组', () => {
+      expect(stringifyShallow({ id: 1, name: 'a', tags: ['x'], fn() {} }, 100))
+        .toBe('{"id":1,"name":"a","tags":[Array(1)],"fn":[function fn]}');
+      expect(stringifyShallow([1, 'a', null, new Map()], 100)).toBe('[1,"a",null,[Map]]');
+      expect(stringifyShallow(new Error('boom'), 100)).toBe('boom');
+      expect(stringifyShallow(42, 100)).toBe('42');
+    });
+
+    it('超出长度时应该截断并停止遍历', () => {
+      const large = Array.from({ length: 10000 }, (_, i) => i);
+      const result = stringifyShallow(large, 20);
+
+      expect(result).toBe(`${'[0,1,2,3,4,5,6,7,8,9,10'.slice(0, 20)}...`);
+    });
+  });
+
+  describe('isErrorLike 与 getErrorCode', () => {
+    it('应该识别 DOMException 并读取错误码', () => {
+      const error = new DOMException('The operation was aborted.', 'AbortError');
+
+      expect(isErrorLike(error)).toBe(true);
+      expect(getErrorCode(error)).toBe(20);
+      expect(getErrorCode(new DOMException('x', 'NotAllowedError'))).toBeUndefined();
+      expect(getErrorCode(Object.assign(new Error('x'), { code: 'ECONNRESET' }))).toBe('ECONNRESET');
+      expect(isErrorLike({ message: 'x', name: 'Error' })).toBe(false);
+    });
+  });
+
+  describe('collectCauses', () => {
+    it('应该按顺序收集 cause 链并解析堆栈', () => {
+      const root = withStack(new Error('数据库连接失败'), 'connect');
+      const middle = new Error('查询失败', { cause: root });
+      const error = new Error('加载订单失败', { cause: middle });
+
+      const causes = collectCauses(error, 5);
+
+      expect(causes).toHaveLength(2);
+      expect(causes[0]).toMatchObject({ relation: 'cause', depth: 1, name: 'Error', message: '查询失败' });
+      expect(causes[1]).toMatchObject({
+        relation: 'cause',
+        depth: 2,
+        message: '数据库连接失败',
+        frames: [{ function: 'connect', filename: 'https://test.com/app.js', lineno: 1, colno: 1, inApp: true }]
+      });
+    });
+
+    it('应该遵守最大嵌套层数', () => {
+      const error = new Error('a', { cause: new Error('b', { cause: new Error('c') }) });
+
+      expect(collectCauses(error, 1).map(cause => cause.message)).toEqual(['b']);
+      expect(collectCauses(error, 0)).toEqual([]);
+    });
+
+    it('应该收集 AggregateError 的子错误', () => {
+      const error = new AggregateError([
+        new TypeError('第一个请求失败'),
+        new Error('第二个请求失败', { cause: '超时' })
+      ], '全部请求失败');
+
+      const causes = collectCauses(error, 5);
+
+      expect(causes.map(cause => [cause.relation, cause.depth, cause.name, cause.message])).toEqual([
+        ['aggregate', 1, 'TypeError', '第一个请求失败'],
+        ['aggregate', 1, 'Error', '第二个请求失败'],
+        ['cause', 2, 'string', '超时']
+      ]);
+    });
+
+    it('循环引用的 cause 不应该重复收集', () => {
+      const a = new Error('a');
+      const b = new Error('b', { cause: a });
+      (a as Error & { cause?: unknown }).cause = b;
+
+      expect(collectCauses(a, 10).map(cause => cause.message)).toEqual(['b']);
+    });
+  });
+});
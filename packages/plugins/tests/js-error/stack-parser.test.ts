@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { parseStack, isInApp } from '../../src/js-error/stack-parser';
+
+describe('堆栈解析', () => {
+  it('应该解析 V8 格式', () => {
+    const stack = [
+      'TypeError: Cannot read properties of undefined (reading \'id\')',
+      '    at UserCard.render (https://test.com/js/app.js:10:15)',
+      '    at https://test.com/js/app.js:20:5',
+      '    at new Store (https://test.com/js/app.js:30:1)',
+      '    at async loadUser (https://test.com/js/app.js:40:9)',
+      '    at Array.map (<anonymous>)',
+      '    at Object.invoke (https://test.com/node_modules/react-dom/index.js:1:1)'
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      { function: 'UserCard.render', filename: 'https://test.com/js/app.js', lineno: 10, colno: 15, inApp: true },
+      { function: '<anonymous>', filename: 'https://test.com/js/app.js', lineno: 20, colno: 5, inApp: true },
+      { function: 'new Store', filename: 'https://test.com/js/app.js', lineno: 30, colno: 1, inApp: true },
+      { function: 'loadUser', filename: 'https://test.com/js/app.js', lineno: 40, colno: 9, inApp: true },
+      { function: 'Array.map', filename: '<anonymous>', lineno: undefined, colno: undefined, inApp: false },
+      { function: 'Object.invoke', filename: 'https://test.com/node_modules/react-dom/index.js', lineno: 1, colno: 1, inApp: false }
+    ]);
+  });
+
+  it('应该解析 V8 的 eval 栈帧', () => {
+    const stack = [
+      'Error: boom',
+      '    at eval (eval at runScript (https://test.com/js/app.js:5:10), <anonymous>:1:7)',
+      '    at runScript (https://test.com/js/app.js:5:10)'
+    ].join('\n');
+
+    expect(parseStack(stack)[0]).toEqual({
+      function: 'eval', filename: 'https://test.com/js/app.js', lineno: 5, colno: 10, inApp: true
+    });
+  });
+
+  it('应该解析 SpiderMonkey 格式', () => {
+    const stack = [
+      'render@https://test.com/js/app.js:10:15',
+      'loadUser/<@https://test.com/js/app.js:40:9',
+      '@https://test.com/js/app.js:20:5',
+      'runScript@https://test.com/js/app.js line 5 > eval:1:7',
+      'init@moz-extension://abc/content.js:1:1'
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      { function: 'render', filename: 'https://test.com/js/app.js', lineno: 10, colno: 15, inApp: true },
+      { function: 'loadUser', filename: 'https://test.com/js/app.js', lineno: 40, colno: 9, inApp: true },
+      { function: '<anonymous>', filename: 'https://test.com/js/app.js', lineno: 20, colno: 5, inApp: true },
+      { function: 'runScript', filename: 'https://test.com/js/app.js', lineno: 5, inApp: true },
+      { function: 'init', filename: 'moz-extension://abc/content.js', lineno: 1, colno: 1, inApp: false }
+    ]);
+  });
+
+  it('应该解析 JavaScriptCore 格式', () => {
+    const stack = [
+      'render@https://test.com/js/app.js:10:15',
+      'forEach@[native code]',
+      'global code@https://test.com/js/app.js:1:1'
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      { function: 'render', filename: 'https://test.com/js/app.js', lineno: 10, colno: 15, inApp: true },
+      { function: 'forEach', filename: '[native code]', lineno: undefined, colno: undefined, inApp: false },
+      { function: 'global code', filename: 'https://test.com/js/app.js', lineno: 1, colno: 1, inApp: true }
+    ]);
+  });
+
+  it('应该将 V8 中不是地址的位置视为内置代码', () => {
+    const stack = [
+      'Error: boom',
+      '    at async Promise.all (index 0)',
+      '    at async loadAll (https://test.com/js/app.js:5:10)'
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      { function: 'Promise.all', filename: 'native', inApp: false },
+      { function: 'loadAll', filename: 'https://test.com/js/app.js', lineno: 5, colno: 10, inApp: true }
+    ]);
+  });
+
+  it('应该解析 JavaScriptCore 中只有地址的匿名栈帧', () => {
+    const stack = [
+      'render@https://test.com/js/app.js:10:15',
+      'https://test.com/js/app.js:20:5',
+      'TypeError: boom'
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      { function: 'render', filename: 'https://test.com/js/app.js', lineno: 10, colno: 15, inApp: true },
+      { function: '<anonymous>', filename: 'https://test.com/js/app.js', lineno: 20, colno: 5, inApp: true }
+    ]);
+  });
+
+  it('应该忽略错误信息中带 @ 的行', () => {
+    expect(parseStack('Error: user admin@test.com not found')).toEqual([]);
+  });
+
+  it('应该按配置判断业务代码', () => {
+    const options = { inAppInclude: ['test.com/js/'], inAppExclude: [/vendor/] };
+
+    expect(isInApp('https://test.com/js/app.js', options)).toBe(true);
+    expect(isInApp('https://test.com/js/vendor.js', options)).toBe(false);
+    expect(isInApp('https://cdn.other.com/sdk.js', options)).toBe(false);
+    expect(isInApp('https://cdn.other.com/sdk.js')).toBe(true);
+    expect(isInApp(undefined)).toBe(false);
+  });
+});
@@ -12,7 +12,8 @@ export default defineConfig({
     'js-error/index': 'src/js-error/index.ts',
     'network/index': 'src/network/index.ts',
     'network/reporter': 'src/network/reporter.ts',
-    'network/types': 'src/network/types.ts'
+    'network/types': 'src/network/types.ts',
+    'breadcrumb/index': 'src/breadcrumb/index.ts'
   },
   format: ['cjs', 'esm'],
   dts: false,
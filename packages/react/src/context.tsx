@@ -0,0 +1,20 @@
+import { createContext, ReactNode } from 'react';
+import { IWebMoniter } from '@senmu/types';
+
+/**
+ * 监控实例上下文，未提供时使用 @senmu/web-moniter 的默认实例
+ */
+export const MoniterContext = createContext<IWebMoniter | null>(null);
+
+export interface MoniterProviderProps {
+  // 监控实例
+  moniter: IWebMoniter;
+  children?: ReactNode;
+}
+
+/**
+ * 为子组件提供监控实例，用于多实例或测试场景
+ */
+export function MoniterProvider({ moniter, children }: MoniterProviderProps) {
+  return <MoniterContext.Provider value={moniter}>{children}</MoniterContext.Provider>;
+}
@@ -0,0 +1,96 @@
+import { Component, ErrorInfo, ReactNode } from 'react';
+import { IWebMoniter } from '@senmu/types';
+import defaultMoniter from '@senmu/web-moniter';
+import { MoniterContext } from './context';
+
+/**
+ * 降级内容的渲染函数
+ */
+export type FallbackRender = (props: {
+  error: Error;
+  componentStack: string;
+  resetError: () => void;
+}) => ReactNode;
+
+export interface ErrorBoundaryProps {
+  children?: ReactNode;
+  // 出错后渲染的降级内容，不设置时渲染为空
+  fallback?: ReactNode | FallbackRender;
+  // 错误上报后的回调
+  onError?: (error: Error, componentStack: string) => void;
+  // 调用 resetError 重置后的回调
+  onReset?: (error: Error | null) => void;
+  // 错误分类，默认 react
+  category?: string;
+  // 错误级别，默认 error
+  level?: string;
+  // 只附加到该边界内错误的标签
+  tags?: Record<string, any>;
+  // 监控实例，优先级高于 MoniterProvider
+  moniter?: IWebMoniter;
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+  componentStack: string;
+}
+
+const INITIAL_STATE: ErrorBoundaryState = { error: null, componentStack: '' };
+
+// 组件中可能抛出非 Error 值
+function toError(value: unknown): Error {
+  return value instanceof Error ? value : new Error(String(value));
+}
+
+/**
+ * 错误边界：捕获子组件渲染错误，附带组件栈通过 addError 上报，并渲染降级内容
+ */
+export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  static contextType = MoniterContext;
+  declare context: IWebMoniter | null;
+
+  state: ErrorBoundaryState = INITIAL_STATE;
+
+  static getDerivedStateFromError(error: unknown): Partial<ErrorBoundaryState> {
+    return { error: toError(error) };
+  }
+
+  componentDidCatch(error: unknown, info: ErrorInfo) {
+    const { category = 'react', level, tags, onError } = this.props;
+    const componentStack = info.componentStack || '';
+    const err = this.state.error || toError(error);
+    this.setState({ componentStack });
+
+    const moniter = this.props.moniter || this.context || defaultMoniter;
+    moniter.addError(err, {
+      category,
+      level,
+      tags,
+      contexts: { react: { componentStack } }
+    });
+
+    onError?.(err, componentStack);
+  }
+
+  /**
+   * 清除错误状态，重新渲染子组件
+   */
+  resetError = () => {
+    const { error } = this.state;
+    this.setState(INITIAL_STATE);
+    this.props.onReset?.(error);
+  };
+
+  render() {
+    const { error, componentStack } = this.state;
+    if (!error) {
+      return this.props.children;
+    }
+
+    const { fallback } = this.props;
+    if (typeof fallback === 'function') {
+      return (fallback as FallbackRender)({ error, componentStack, resetError: this.resetError });
+    }
+    return fallback === undefined ? null : fallback;
+  }
+}
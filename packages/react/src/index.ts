@@ -0,0 +1,9 @@
+export { MoniterContext, MoniterProvider } from './context';
+export { useMoniter } from './use-moniter';
+export { ErrorBoundary } from './error-boundary';
+export { useRouteTracking, createPVMetric } from './router';
+export { withProfiler, RENDER_METRIC_NAME } from './profiler';
+export type { MoniterProviderProps } from './context';
+export type { ErrorBoundaryProps, FallbackRender } from './error-boundary';
+export type { RouteTrackingOptions } from './router';
+export type { ProfilerOptions } from './profiler';
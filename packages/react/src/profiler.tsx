@@ -0,0 +1,59 @@
+import { ComponentType, Profiler, ProfilerOnRenderCallback } from 'react';
+import { CustomMetric, MetricType } from '@senmu/types';
+import { useMoniter } from './use-moniter';
+
+// 渲染耗时指标名称
+export const RENDER_METRIC_NAME = 'react_render';
+
+export interface ProfilerOptions {
+  // 组件名称，默认为组件的 displayName 或 name
+  name?: string;
+  // 是否上报更新阶段的渲染，默认只上报首次挂载
+  includeUpdates?: boolean;
+  // 低于该耗时(ms)的渲染不上报，默认 0
+  minDuration?: number;
+}
+
+function getDisplayName(component: ComponentType<any>): string {
+  return component.displayName || component.name || 'Anonymous';
+}
+
+/**
+ * 包装组件，通过 React.Profiler 将渲染耗时作为自定义指标上报
+ * 生产环境需使用 react-dom 的 profiling 构建，否则 onRender 不会触发
+ */
+export function withProfiler<P extends object>(WrappedComponent: ComponentType<P>, options: ProfilerOptions = {}) {
+  const { includeUpdates = false, minDuration = 0 } = options;
+  const name = options.name || getDisplayName(WrappedComponent);
+
+  function ProfiledComponent(props: P) {
+    const moniter = useMoniter();
+
+    const onRender: ProfilerOnRenderCallback = (_id, phase, actualDuration, baseDuration) => {
+      if ((phase !== 'mount' && !includeUpdates) || actualDuration < minDuration) {
+        return;
+      }
+      const metric: CustomMetric = {
+        type: MetricType.CUSTOM,
+        project: '',
+        timestamp: Date.now(),
+        pageUrl: window.location.href,
+        name: RENDER_METRIC_NAME,
+        value: actualDuration,
+        category: 'react',
+        tags: { component: name, phase },
+        contexts: { profiler: { baseDuration } }
+      };
+      moniter.send(metric);
+    };
+
+    return (
+      <Profiler id={name} onRender={onRender}>
+        <WrappedComponent {...props} />
+      </Profiler>
+    );
+  }
+
+  ProfiledComponent.displayName = `withProfiler(${name})`;
+  return ProfiledComponent;
+}
@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react';
+import { MetricType, PVMetric } from '@senmu/types';
+import { useMoniter } from './use-moniter';
+
+export interface RouteTrackingOptions {
+  // 页面标题，默认 document.title
+  title?: string;
+  // 是否上报首次渲染时的页面，默认 true
+  trackInitial?: boolean;
+}
+
+/**
+ * 创建页面访问数据，project 等公共字段由 tracker 补全
+ */
+export function createPVMetric(path: string, referrer?: string, title?: string): PVMetric {
+  return {
+    type: MetricType.PV,
+    project: '',
+    timestamp: Date.now(),
+    pageUrl: window.location.href,
+    title: title ?? document.title,
+    path,
+    referrer
+  };
+}
+
+/**
+ * 路由变化时上报页面访问，可配合任意路由库使用，如 react-router 的 useLocation().pathname
+ * 来源为上一次上报时的页面地址，首次上报使用 document.referrer
+ */
+export function useRouteTracking(path: string, options: RouteTrackingOptions = {}) {
+  const moniter = useMoniter();
+  const { title, trackInitial = true } = options;
+  // 上一个页面地址，null 表示尚未渲染过
+  const previousUrl = useRef<string | null>(null);
+
+  useEffect(() => {
+    const isInitial = previousUrl.current === null;
+    const referrer = isInitial ? document.referrer || undefined : previousUrl.current!;
+    previousUrl.current = window.location.href;
+
+    if (isInitial && !trackInitial) {
+      return;
+    }
+    moniter.send(createPVMetric(path, referrer, title));
+    // 只在路由变化时上报
+  }, [path]);
+}
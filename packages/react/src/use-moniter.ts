@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { IWebMoniter } from '@senmu/types';
+import defaultMoniter from '@senmu/web-moniter';
+import { MoniterContext } from './context';
+
+/**
+ * 获取监控实例：优先使用 MoniterProvider 提供的实例，否则为默认实例
+ */
+export function useMoniter(): IWebMoniter {
+  return useContext(MoniterContext) || defaultMoniter;
+}
@@ -0,0 +1,269 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, useState } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { IWebMoniter, MetricType } from '@senmu/types';
+import {
+  MoniterProvider,
+  useMoniter,
+  ErrorBoundary,
+  useRouteTracking,
+  withProfiler,
+  RENDER_METRIC_NAME
+} from '../src';
+
+// 默认实例只用于确认未提供 MoniterProvider 时的回退
+vi.mock('@senmu/web-moniter', () => ({
+  default: { addError: vi.fn(), send: vi.fn() }
+}));
+
+// 告知 React 当前为 act 测试环境
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const createMockMoniter = () => ({
+  addError: vi.fn(),
+  send: vi.fn()
+}) as unknown as IWebMoniter & { addError: ReturnType<typeof vi.fn>; send: ReturnType<typeof vi.fn> };
+
+function Bomb({ message = '渲染失败' }: { message?: string }): JSX.Element {
+  throw new Error(message);
+}
+
+describe('@senmu/react', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  let moniter: ReturnType<typeof createMockMoniter>;
+
+  const render = (element: JSX.Element) => {
+    act(() => {
+      root.render(<MoniterProvider moniter={moniter}>{element}</MoniterProvider>);
+    });
+  };
+
+  beforeEach(() => {
+    moniter = createMockMoniter();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+    // React 会在控制台打印被错误边界捕获的错误
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+    window.history.replaceState(null, '', '/');
+    vi.restoreAllMocks();
+  });
+
+  describe('useMoniter', () => {
+    it('应该返回 MoniterProvider 提供的实例', () => {
+      let current: IWebMoniter | undefined;
+      function Consumer() {
+        current = useMoniter();
+        return null;
+      }
+
+      render(<Consumer />);
+
+      expect(current).toBe(moniter);
+    });
+
+    it('未提供 MoniterProvider 时应该返回默认实例', async () => {
+      const { default: defaultMoniter } = await import('@senmu/web-moniter');
+      let current: IWebMoniter | undefined;
+      function Consumer() {
+        current = useMoniter();
+        return null;
+      }
+
+      act(() => root.render(<Consumer />));
+
+      expect(current).toBe(defaultMoniter);
+    });
+  });
+
+  describe('ErrorBoundary', () => {
+    it('应该附带组件栈上报错误并渲染降级内容', () => {
+      const onError = vi.fn();
+
+      render(
+        <ErrorBoundary fallback={<p>出错了</p>} onError={onError} tags={{ boundary: 'App' }}>
+          <Bomb />
+        </ErrorBoundary>
+      );
+
+      expect(container.textContent).toBe('出错了');
+      expect(moniter.addError).toHaveBeenCalledTimes(1);
+      const [error, options] = moniter.addError.mock.calls[0];
+      expect(error.message).toBe('渲染失败');
+      expect(options).toMatchObject({ category: 'react', tags: { boundary: 'App' } });
+      expect(options.contexts.react.componentStack).toContain('Bomb');
+      expect(onError).toHaveBeenCalledWith(error, options.contexts.react.componentStack);
+    });
+
+    it('props 中的 moniter 优先级应该高于 MoniterProvider', () => {
+      const other = createMockMoniter();
+
+      render(
+        <ErrorBoundary moniter={other} category="checkout" level="fatal">
+          <Bomb />
+        </ErrorBoundary>
+      );
+
+      expect(moniter.addError).not.toHaveBeenCalled();
+      expect(other.addError).toHaveBeenCalledWith(
+        expect.any(Error),
+        expect.objectContaining({ category: 'checkout', level: 'fatal' })
+      );
+      expect(container.textContent).toBe('');
+    });
+
+    it('应该把非 Error 值转换为 Error', () => {
+      function Thrower(): JSX.Element {
+        throw '字符串错误';
+      }
+
+      render(
+        <ErrorBoundary>
+          <Thrower />
+        </ErrorBoundary>
+      );
+
+      const [error] = moniter.addError.mock.calls[0];
+      expect(error).toBeInstanceOf(Error);
+      expect(error.message).toBe('字符串错误');
+    });
+
+    it('fallback 渲染函数应该可以重置错误状态', () => {
+      const onReset = vi.fn();
+      let shouldThrow = true;
+      function MaybeBomb() {
+        if (shouldThrow) {
+          throw new Error('首次渲染失败');
+        }
+        return <span>已恢复</span>;
+      }
+
+      render(
+        <ErrorBoundary
+          onReset={onReset}
+          fallback={({ error, resetError }) => (
+            <button onClick={resetError}>{error.message}</button>
+          )}
+        >
+          <MaybeBomb />
+        </ErrorBoundary>
+      );
+
+      expect(container.textContent).toBe('首次渲染失败');
+
+      shouldThrow = false;
+      act(() => {
+        container.querySelector('button')!.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+      });
+
+      expect(container.textContent).toBe('已恢复');
+      expect(onReset).toHaveBeenCalledWith(expect.objectContaining({ message: '首次渲染失败' }));
+    });
+  });
+
+  describe('useRouteTracking', () => {
+    let navigate: (path: string) => void;
+    function App({ trackInitial }: { trackInitial?: boolean }) {
+      const [path, setPath] = useState('/');
+      navigate = next => {
+        window.history.pushState(null, '', next);
+        setPath(next);
+      };
+      useRouteTracking(path, { trackInitial });
+      return null;
+    }
+
+    it('应该在首次渲染与路由变化时上报页面访问', () => {
+      document.title = '首页';
+      render(<App />);
+
+      document.title = '详情';
+      act(() => navigate('/detail'));
+
+      expect(moniter.send).toHaveBeenCalledTimes(2);
+      expect(moniter.send.mock.calls[0][0]).toMatchObject({ type: MetricType.PV, path: '/', title: '首页' });
+      expect(moniter.send.mock.calls[1][0]).toMatchObject({
+        type: MetricType.PV,
+        path: '/detail',
+        title: '详情',
+        referrer: 'http://localhost:3000/',
+        pageUrl: 'http://localhost:3000/detail'
+      });
+    });
+
+    it('trackInitial 为 false 时应该跳过首次渲染', () => {
+      render(<App trackInitial={false} />);
+      expect(moniter.send).not.toHaveBeenCalled();
+
+      act(() => navigate('/list'));
+
+      expect(moniter.send).toHaveBeenCalledTimes(1);
+      expect(moniter.send.mock.calls[0][0]).toMatchObject({ path: '/list' });
+    });
+
+    it('路径未变化的重新渲染不应该重复上报', () => {
+      render(<App />);
+      render(<App />);
+
+      expect(moniter.send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('withProfiler', () => {
+    function Greeting({ name }: { name: string }) {
+      return <span>你好，{name}</span>;
+    }
+
+    it('应该把首次挂载的渲染耗时作为自定义指标上报', () => {
+      const Profiled = withProfiler(Greeting);
+
+      render(<Profiled name="senmu" />);
+
+      expect(container.textContent).toBe('你好，senmu');
+      expect(Profiled.displayName).toBe('withProfiler(Greeting)');
+      expect(moniter.send).toHaveBeenCalledTimes(1);
+      expect(moniter.send.mock.calls[0][0]).toMatchObject({
+        type: MetricType.CUSTOM,
+        name: RENDER_METRIC_NAME,
+        value: expect.any(Number),
+        category: 'react',
+        tags: { component: 'Greeting', phase: 'mount' }
+      });
+    });
+
+    it('默认不应该上报更新阶段，开启 includeUpdates 后上报', () => {
+      const Profiled = withProfiler(Greeting);
+      const ProfiledWithUpdates = withProfiler(Greeting, { name: 'Hello', includeUpdates: true });
+
+      render(<Profiled name="a" />);
+      render(<Profiled name="b" />);
+      expect(moniter.send).toHaveBeenCalledTimes(1);
+
+      moniter.send.mockClear();
+      render(<ProfiledWithUpdates name="a" />);
+      render(<ProfiledWithUpdates name="b" />);
+
+      expect(moniter.send.mock.calls.map(([metric]) => metric.tags)).toEqual([
+        { component: 'Hello', phase: 'mount' },
+        { component: 'Hello', phase: 'update' }
+      ]);
+    });
+
+    it('低于 minDuration 的渲染不应该上报', () => {
+      const Profiled = withProfiler(Greeting, { minDuration: Number.MAX_SAFE_INTEGER });
+
+      render(<Profiled name="senmu" />);
+
+      expect(moniter.send).not.toHaveBeenCalled();
+    });
+  });
+});
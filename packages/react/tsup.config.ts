@@ -0,0 +1,15 @@
+import { defineConfig } from 'tsup';
+
+/**
+ * react 构建配置
+ * 支持 CommonJS 和 ESM 格式输出，react 由使用方提供
+ */
+export default defineConfig({
+  entry: ['src/index.ts'],
+  format: ['cjs', 'esm'],
+  dts: { compilerOptions: { composite: false } },
+  clean: true,
+  sourcemap: false,
+  minify: true,
+  external: ['react', 'react/jsx-runtime', '@senmu/web-moniter']
+});
@@ -0,0 +1,58 @@
+import { MetricData } from '@senmu/types';
+
+/**
+ * 计算字符串的 UTF-8 字节数
+ */
+export function getByteLength(str: string): number {
+  return new TextEncoder().encode(str).byteLength;
+}
+
+/**
+ * 按序列化后的大小拆分指标数组
+ * 每个分片序列化为 JSON 数组后不超过 maxBytes；单条数据本身超限时独占一个分片
+ * @param measure 计算大小的方法，默认为 UTF-8 字节数
+ */
+export function splitBySize(
+  metrics: MetricData[],
+  maxBytes?: number,
+  measure: (str: string) => number = getByteLength
+): MetricData[][] {
+  if (!maxBytes || measure(JSON.stringify(metrics)) <= maxBytes) {
+    return [metrics];
+  }
+
+  const chunks: MetricData[][] = [];
+  // 数组的方括号与元素间的逗号
+  const bracketSize = measure('[]');
+  const separatorSize = measure(',');
+  let current: MetricData[] = [];
+  let currentSize = bracketSize;
+
+  for (const metric of metrics) {
+    const size = measure(JSON.stringify(metric));
+    // 非首个元素需要额外的逗号
+    const separator = current.length > 0 ? separatorSize : 0;
+
+    if (current.length > 0 && currentSize + separator + size > maxBytes) {
+      chunks.push(current);
+      current = [];
+      currentSize = bracketSize;
+    }
+
+    currentSize += (current.length > 0 ? separatorSize : 0) + size;
+    current.push(metric);
+  }
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * 生成批次ID
+ */
+export function generateBatchId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substring(2, 10);
+}
@@ -0,0 +1,58 @@
+import { CompressionFormat } from '@senmu/types';
+
+// 小于该字节数的数据不值得压缩
+const MIN_COMPRESS_SIZE = 1024;
+
+/**
+ * 当前环境是否支持 CompressionStream
+ */
+export function isCompressionSupported(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof TextEncoder !== 'undefined';
+}
+
+/**
+ * 压缩上报数据
+ * @returns 压缩后的数据；不支持、数据过小或压缩失败时返回 null，调用方应回退到未压缩数据
+ */
+export async function compress(data: string, format: CompressionFormat): Promise<Uint8Array | null> {
+  if (!isCompressionSupported()) {
+    return null;
+  }
+
+  const input = new TextEncoder().encode(data);
+  if (input.byteLength < MIN_COMPRESS_SIZE) {
+    return null;
+  }
+
+  try {
+    const stream = new CompressionStream(format);
+    const writer = stream.writable.getWriter();
+    const writing = writer.write(input).then(() => writer.close());
+    // 写入失败时流会出错，由下面的读取抛出，这里避免产生未处理的 rejection
+    writing.catch(() => {});
+
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const reader = stream.readable.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      chunks.push(value);
+      length += value.byteLength;
+    }
+    await writing;
+
+    const output = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+      output.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return output;
+  } catch (err) {
+    console.warn('[web-moniter] 数据压缩失败，使用未压缩数据上报', err);
+    return null;
+  }
+}
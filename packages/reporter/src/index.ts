@@ -1,8 +1,25 @@
 import { 
   MetricData, 
   MoniterConfig, 
-  Reporter as ReporterInterface 
+  Reporter as ReporterInterface,
+  RetryOptions,
+  Transport,
+  TransportPayload,
+  BatchInfo,
+  CompressionFormat,
+  MetricType,
+  ReportRoute
 } from '@senmu/types';
+import {
+  CircuitBreaker,
+  DEFAULT_RETRY_OPTIONS,
+  ReportError,
+  withRetry
+} from './retry';
+import { SendQueue } from './queue';
+import { createBuiltinTransports } from './transports';
+import { compress } from './compression';
+import { generateBatchId, splitBySize } from './chunk';
 
 /**
  * 默认上报配置
@@ -10,25 +27,70 @@ import {
 const DEFAULT_REPORTER_CONFIG: Partial<MoniterConfig> = {
   reportImmediately: false,
   // 最大缓存数量
-  maxCache: 50
+  maxCache: 50,
+  // 同时进行中的上报请求数
+  sendConcurrency: 2
 };
 
+/**
+ * 立即上报时的默认通道
+ */
+const IMMEDIATE_TRANSPORTS = ['fetch'];
+
+/**
+ * 延迟上报时的默认通道（优先 Beacon，不阻塞页面卸载）
+ */
+const DEFERRED_TRANSPORTS = ['beacon', 'fetch', 'image'];
+
+/**
+ * 页面是否已隐藏，pagehide 与页面卸载时 visibilityState 已为 hidden
+ */
+function isPageHidden(): boolean {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+}
+
+/**
+ * 为失败的错误附加未送达的数据，其他类型的错误包装为 ReportError 并保留错误信息
+ */
+function withUndelivered(err: unknown, undelivered: MetricData[]): ReportError {
+  const error = err instanceof ReportError
+    ? err
+    : new ReportError(err instanceof Error ? err.message : String(err));
+  error.undelivered = undelivered;
+  return error;
+}
+
 /**
  * HTTP 上报器
  */
 export class Reporter implements ReporterInterface {
   private config: MoniterConfig;
-  private isSending: boolean;
+  private queue: SendQueue;
   private destroyed: boolean;
+  // 按上报地址隔离的熔断器，某个服务不可用时不影响其他路由
+  private circuitBreakers: Map<string, CircuitBreaker>;
+  private transports: Map<string, Transport>;
 
   constructor(config: MoniterConfig) {
     this.config = { ...DEFAULT_REPORTER_CONFIG, ...config };
-    this.isSending = false;
+    this.queue = new SendQueue(this.config.sendConcurrency);
     this.destroyed = false;
+    this.circuitBreakers = new Map();
+    this.transports = new Map();
+    createBuiltinTransports().forEach(transport => this.registerTransport(transport));
+  }
+
+  /**
+   * 注册上报通道，同名通道会被覆盖
+   */
+  registerTransport(transport: Transport): Reporter {
+    this.transports.set(transport.name, transport);
+    return this;
   }
 
   /**
-   * 发送数据
+   * 发送数据，按路由分组后分别上报，各分组互不影响
+   * 任一分组失败时 reject，错误的 undelivered 只包含未送达的数据，已送达的分组不会被重复上报
   */
   async send(data: MetricData | MetricData[], immediately = false) {
     if (this.destroyed) {
@@ -36,124 +98,202 @@ export class Reporter implements ReporterInterface {
       return;
     }
 
-    if (!this.config.reportUrl) {
-      console.error('[web-moniter] 未配置上报URL，无法上报数据');
-      return;
-    }
-
     const metrics = Array.isArray(data) ? data : [data];
     if (metrics.length === 0) {
       return;
     }
 
-    // 根据是否立即上报决定使用哪种上报方式
-    if (immediately || this.config.reportImmediately) {
-      return this.sendImmediate(metrics);
-    } else {
-      return this.sendBeacon(metrics);
+    const immediate = immediately || this.config.reportImmediately;
+    const tasks = this.groupByRoute(metrics).map(({ route, metrics: group }) => {
+      // 熔断期间直接拒绝，交由调用方保留数据
+      if (this.getCircuitBreaker(route.url)?.isOpen()) {
+        return Promise.resolve(withUndelivered(new ReportError('上报服务不可用，已暂停上报'), group));
+      }
+
+      const transports = this.resolveTransports(
+        route.transports || this.config.transports || (immediate ? IMMEDIATE_TRANSPORTS : DEFERRED_TRANSPORTS)
+      );
+
+      // 立即上报进入发送队列；延迟上报直接发出，保证页面卸载时 Beacon 能同步调用
+      const task = immediate
+        ? this.queue.enqueue(() => this.dispatch(group, transports, route))
+        : this.dispatch(group, transports, route);
+      // 等待所有分组结束，失败的分组只记录未送达的数据
+      return task.then(
+        () => null,
+        err => withUndelivered(err, (err instanceof ReportError && err.undelivered) || group)
+      );
+    });
+
+    const failures = (await Promise.all(tasks)).filter((err): err is ReportError => err !== null);
+    if (failures.length > 0) {
+      throw withUndelivered(
+        failures[0],
+        ([] as MetricData[]).concat(...failures.map(err => err.undelivered || []))
+      );
     }
   }
 
   /**
-   * 立即上报（XMLHttpRequest）
+   * 按指标类型将数据分配到对应的路由，未配置地址的数据会被丢弃
    * @private
-  */
-  private async sendImmediate(metrics: MetricData[]) {
-    if (this.isSending) {
-      console.warn('[web-moniter] 正在上报数据，请稍后再试');
-      return;
-    }
+   */
+  private groupByRoute(metrics: MetricData[]): Array<{ route: ReportRoute; metrics: MetricData[] }> {
+    const routes = this.config.routes || {};
+    const groups = new Map<string, { route: ReportRoute; metrics: MetricData[] }>();
 
-    this.isSending = true;
-
-    try {
-      const response = await fetch(this.config.reportUrl!, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...this.config.headers
-        },
-        body: JSON.stringify(metrics),
-        credentials: 'include'
-      });
-
-      if (!response.ok) {
-        throw new Error(`上报失败: ${response.status} ${response.statusText}`);
+    for (const metric of metrics) {
+      const key = routes[metric.type] ? metric.type : routes['*'] ? '*' : '';
+      const route = key ? routes[key as MetricType | '*']! : { url: this.config.reportUrl! };
+
+      if (!route.url) {
+        console.error('[web-moniter] 未配置上报URL，无法上报数据');
+        continue;
       }
 
-      if (this.config.debug) {
-        console.log('[web-moniter] 数据上报成功', metrics);
+      if (!groups.has(key)) {
+        groups.set(key, { route, metrics: [] });
       }
-    } catch (err) {
-      console.error('[web-moniter] 上报数据失败', err);
-      throw err;
-    } finally {
-      this.isSending = false;
+      groups.get(key)!.metrics.push(metric);
     }
+
+    return Array.from(groups.values());
   }
 
   /**
-   * 使用 Beacon API 上报（不阻塞页面卸载）
+   * 按顺序尝试各个上报通道，全部失败时抛出最后一个错误，错误的 undelivered 为未送达的分片
+   * 数据会按通道的大小限制拆分，某个分片失败时剩余数据降级到下一个通道
    * @private
    */
-  private async sendBeacon(metrics: MetricData[]) {
-    if (typeof navigator.sendBeacon !== 'function') {
-      return this.sendImmediate(metrics);
+  private async dispatch(metrics: MetricData[], transports: Transport[], route: ReportRoute) {
+    const circuitBreaker = this.getCircuitBreaker(route.url);
+    // 排队期间可能已触发熔断
+    if (circuitBreaker?.isOpen()) {
+      throw new ReportError('上报服务不可用，已暂停上报');
     }
 
-    const blob = new Blob([JSON.stringify(metrics)], {
-      type: 'application/json'
-    });
+    let remaining = metrics;
+    let lastError: unknown = new ReportError('没有可用的上报通道');
+    for (let i = 0; i < transports.length; i++) {
+      const transport = transports[i];
+      // 重试过程中触发了熔断（如 Retry-After 过长），不再降级到其他通道
+      if (i > 0 && circuitBreaker?.isOpen()) {
+        break;
+      }
+
+      const measure = transport.measurePayload && ((body: string) => transport.measurePayload!(body));
+      const limit = this.getPayloadLimit(transport);
+      const chunks = splitBySize(remaining, limit, measure);
+      const batchId = chunks.length > 1 ? generateBatchId() : undefined;
+      let failedAt = -1;
 
-    const success = navigator.sendBeacon(this.config.reportUrl!, blob);
-    
-    if (!success) {
-      console.warn('[web-moniter] Beacon API上报失败，尝试使用 fetch 上报');
-      try {
-        return await this.sendImmediate(metrics);
-      } catch (err) {
-        console.warn('[web-moniter] fetch 上报失败，尝试使用图片上报');
-        return this.sendImage(metrics);
+      for (let seq = 0; seq < chunks.length; seq++) {
+        const batch = batchId ? { id: batchId, seq, total: chunks.length } : undefined;
+        const payload = this.createPayload(chunks[seq], route, batch);
+        payload.maxSize = limit;
+        // 未开启压缩或页面正在隐藏、卸载时不产生额外的异步等待，保证 Beacon 与 keepalive 请求能在卸载前发出
+        if (this.config.compression && !isPageHidden()) {
+          await this.compressPayload(payload, this.config.compression);
+        }
+        try {
+          await withRetry(
+            () => transport.send(payload),
+            this.getRetryOptions(),
+            retryAfter => circuitBreaker?.open(retryAfter)
+          );
+        } catch (err) {
+          lastError = err;
+          failedAt = seq;
+          break;
+        }
+      }
+
+      if (failedAt === -1) {
+        circuitBreaker?.recordSuccess();
+        if (this.config.debug) {
+          console.log(`[web-moniter] ${transport.name} 数据上报成功`, remaining);
+        }
+        return;
+      }
+
+      // 已送达的分片不再重复发送，全部通道失败时也只把剩余的分片交还调用方
+      remaining = ([] as MetricData[]).concat(...chunks.slice(failedAt));
+      if (i < transports.length - 1) {
+        console.warn(`[web-moniter] ${transport.name} 上报失败，尝试使用 ${transports[i + 1].name} 上报`);
       }
     }
 
-    if (this.config.debug) {
-      console.log('[web-moniter] Beacon API数据上报成功', metrics);
+    circuitBreaker?.recordFailure();
+    console.error('[web-moniter] 上报数据失败', lastError);
+    throw withUndelivered(lastError, remaining);
+  }
+
+  /**
+   * 构建发送载荷
+   * @private
+   */
+  private createPayload(metrics: MetricData[], route: ReportRoute, batch?: BatchInfo): TransportPayload {
+    const payload: TransportPayload = {
+      url: route.url,
+      body: JSON.stringify(metrics),
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.config.headers,
+        ...route.headers
+      },
+      metrics
+    };
+
+    if (batch) {
+      payload.batch = batch;
+      payload.headers['X-Batch-Id'] = batch.id;
+      payload.headers['X-Batch-Seq'] = String(batch.seq);
+      payload.headers['X-Batch-Total'] = String(batch.total);
     }
+
+    return payload;
   }
 
   /**
-   * 使用图片方式上报（兼容性最好）
+   * 压缩载荷数据，不支持或压缩失败时保持未压缩
    * @private
    */
-  private async sendImage(metrics: MetricData[]) {
-    try {
-      const data = JSON.stringify(metrics);
-      // 检查 URL 长度
-      if (data.length > 2000) { // 预留一些空间给其他参数
-        console.warn('[web-moniter] 数据过大，无法使用图片上报');
-        return;
+  private async compressPayload(payload: TransportPayload, format: CompressionFormat) {
+    const compressedBody = await compress(payload.body, format);
+    if (compressedBody) {
+      payload.compressedBody = compressedBody;
+      payload.encoding = format;
+      payload.headers['Content-Encoding'] = format;
+    }
+  }
+
+  /**
+   * 获取通道单次请求的大小限制，配置优先于通道默认值
+   * @private
+   */
+  private getPayloadLimit(transport: Transport): number | undefined {
+    return this.config.payloadLimits?.[transport.name] ?? transport.maxPayloadSize;
+  }
+
+  /**
+   * 根据配置解析出当前环境可用的上报通道
+   * @private
+   */
+  private resolveTransports(entries: Array<string | Transport>): Transport[] {
+    const transports: Transport[] = [];
+
+    for (const entry of entries) {
+      const transport = typeof entry === 'string' ? this.transports.get(entry) : entry;
+      if (!transport) {
+        console.warn(`[web-moniter] 未注册的上报通道: ${entry}`);
+        continue;
       }
-      
-      const img = new Image();
-      // 使用 URL 对象处理路径
-      const url = new URL(this.config.reportUrl!);
-      url.pathname = url.pathname.endsWith('/') ? url.pathname + '1x1.gif' : url.pathname + '/1x1.gif';
-      url.searchParams.set('data', data);
-      
-      img.src = url.toString();
-      
-      // 添加加载失败处理
-      img.onerror = () => {
-        console.error('[web-moniter] 图片上报失败');
-      };
-      if (this.config.debug) {
-        console.log('[web-moniter] 图片上报成功', metrics);
+      if (transport.isSupported()) {
+        transports.push(transport);
       }
-    } catch (err) {
-      console.error('[web-moniter] 图片上报失败', err);
-      throw err;
     }
+
+    return transports;
   }
 
   /**
@@ -161,10 +301,42 @@ export class Reporter implements ReporterInterface {
    */
   setConfig(config: Partial<MoniterConfig>) {
     this.config = { ...this.config, ...config };
+    if (config.sendConcurrency) {
+      this.queue.setConcurrency(config.sendConcurrency);
+    }
+    if ('retry' in config) {
+      this.circuitBreakers.clear();
+    }
   }
 
   /**
-   * 销毁上报器
+   * 获取完整的重试配置，关闭重试时只尝试一次
+   * @private
+   */
+  private getRetryOptions(): Required<RetryOptions> {
+    if (this.config.retry === false) {
+      return { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 };
+    }
+    return { ...DEFAULT_RETRY_OPTIONS, ...this.config.retry };
+  }
+
+  /**
+   * 获取上报地址对应的熔断器，关闭重试时不熔断
+   * @private
+   */
+  private getCircuitBreaker(url: string): CircuitBreaker | null {
+    if (this.config.retry === false) {
+      return null;
+    }
+    if (!this.circuitBreakers.has(url)) {
+      const { circuitThreshold, circuitCooldown } = this.getRetryOptions();
+      this.circuitBreakers.set(url, new CircuitBreaker(circuitThreshold, circuitCooldown));
+    }
+    return this.circuitBreakers.get(url)!;
+  }
+
+  /**
+   * 销毁上报器，已进入队列的批次仍会继续发送
    */
   destroy() {
     this.destroyed = true;
@@ -177,3 +349,16 @@ export class Reporter implements ReporterInterface {
 export function createReporter(config: MoniterConfig): Reporter {
   return new Reporter(config);
 }
+
+export {
+  CircuitBreaker,
+  ReportError,
+  parseRetryAfter
+} from './retry';
+export { compress, isCompressionSupported } from './compression';
+export { splitBySize, getByteLength } from './chunk';
+export {
+  FetchTransport,
+  BeaconTransport,
+  ImageTransport
+} from './transports';
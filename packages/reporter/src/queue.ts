@@ -0,0 +1,75 @@
+/**
+ * 队列中等待执行的发送任务
+ */
+interface QueuedTask {
+  task: () => Promise<void>;
+  resolve: () => void;
+  reject: (err: unknown) => void;
+}
+
+/**
+ * 并发受限的发送队列
+ * 每个批次对应一个 Promise，在真正送达或最终失败时才会 resolve/reject
+ */
+export class SendQueue {
+  private concurrency: number;
+  private running: number;
+  private pending: QueuedTask[];
+
+  constructor(concurrency = 1) {
+    this.concurrency = Math.max(1, concurrency);
+    this.running = 0;
+    this.pending = [];
+  }
+
+  /**
+   * 加入一个发送任务
+   */
+  enqueue(task: () => Promise<void>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ task, resolve, reject });
+      this.next();
+    });
+  }
+
+  /**
+   * 调整并发数
+   */
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, concurrency);
+    this.next();
+  }
+
+  /**
+   * 等待执行和正在执行的任务总数
+   */
+  get size(): number {
+    return this.pending.length + this.running;
+  }
+
+  /**
+   * 在并发额度内启动等待中的任务
+   * @private
+   */
+  private next() {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const { task, resolve, reject } = this.pending.shift()!;
+      this.running++;
+
+      // 同步启动任务，保证 enqueue 返回时请求已发出
+      let result: Promise<void>;
+      try {
+        result = Promise.resolve(task());
+      } catch (err) {
+        result = Promise.reject(err);
+      }
+
+      result
+        .then(resolve, reject)
+        .then(() => {
+          this.running--;
+          this.next();
+        });
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { MetricData, ReportFailure, RetryOptions } from '@senmu/types';
+
+/**
+ * 默认重试配置
+ */
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: true,
+  circuitThreshold: 5,
+  circuitCooldown: 60000
+};
+
+/**
+ * 上报错误构造参数
+ */
+export interface ReportErrorOptions {
+  // HTTP 状态码，网络错误时为空
+  status?: number;
+  // Retry-After 解析后的等待时间(ms)
+  retryAfter?: number;
+  // 是否可以重试，未指定时根据状态码判断
+  retryable?: boolean;
+  // 未送达的数据
+  undelivered?: MetricData[];
+}
+
+/**
+ * 上报错误，携带 HTTP 状态码与服务端要求的重试等待时间
+ */
+export class ReportError extends Error implements ReportFailure {
+  status?: number;
+  retryAfter?: number;
+  retryable?: boolean;
+  undelivered?: MetricData[];
+
+  constructor(message: string, options: ReportErrorOptions = {}) {
+    super(message);
+    this.name = 'ReportError';
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+    this.retryable = options.retryable;
+    this.undelivered = options.undelivered;
+  }
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期），返回毫秒
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * 是否为可重试的错误：网络错误、408、429 以及 5xx
+ */
+export function isRetryableError(err: unknown): boolean {
+  if (!(err instanceof ReportError)) {
+    return true;
+  }
+  if (err.retryable !== undefined) {
+    return err.retryable;
+  }
+  if (err.status === undefined) {
+    return true;
+  }
+  return err.status === 408 || err.status === 429 || err.status >= 500;
+}
+
+/**
+ * 计算第 attempt 次重试前的退避时间（从 1 开始）
+ */
+export function getBackoffDelay(attempt: number, options: Required<RetryOptions>): number {
+  const delay = Math.min(options.maxDelay, options.baseDelay * Math.pow(2, attempt - 1));
+  if (!options.jitter) {
+    return delay;
+  }
+  // 一半固定、一半随机，避免所有客户端同时重试
+  return delay / 2 + Math.random() * delay / 2;
+}
+
+/**
+ * 熔断器：连续失败达到阈值后在冷却期内拒绝发送
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private threshold: number;
+  private cooldown: number;
+
+  constructor(threshold: number, cooldown: number) {
+    this.threshold = threshold;
+    this.cooldown = cooldown;
+  }
+
+  /**
+   * 是否处于熔断状态
+   */
+  isOpen(): boolean {
+    return Date.now() < this.openUntil;
+  }
+
+  /**
+   * 记录一次成功，关闭熔断
+   */
+  recordSuccess() {
+    this.failures = 0;
+    this.openUntil = 0;
+  }
+
+  /**
+   * 记录一次失败，达到阈值时触发熔断
+   */
+  recordFailure() {
+    this.failures++;
+    if (this.failures >= this.threshold) {
+      this.open(this.cooldown);
+    }
+  }
+
+  /**
+   * 立即熔断指定时长
+   */
+  open(duration: number) {
+    this.openUntil = Math.max(this.openUntil, Date.now() + duration);
+  }
+}
+
+/**
+ * 按重试策略执行任务
+ * @param task 单次发送任务，失败时应抛出 ReportError 或网络错误
+ * @param onRetryAfterExceeded Retry-After 超过最大退避时间时的回调
+ */
+export async function withRetry(
+  task: () => Promise<void>,
+  options: Required<RetryOptions>,
+  onRetryAfterExceeded?: (retryAfter: number) => void
+): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (attempt >= options.maxAttempts || !isRetryableError(err)) {
+        throw err;
+      }
+
+      let delay = getBackoffDelay(attempt, options);
+      const retryAfter = err instanceof ReportError ? err.retryAfter : undefined;
+      if (retryAfter !== undefined) {
+        if (retryAfter > options.maxDelay) {
+          onRetryAfterExceeded?.(retryAfter);
+          throw err;
+        }
+        delay = Math.max(delay, retryAfter);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { Transport, TransportPayload } from '@senmu/types';
+import { ReportError } from '../retry';
+import { appendBatchParams } from './utils';
+
+/**
+ * Beacon API 上报通道（不阻塞页面卸载，无法携带自定义请求头）
+ */
+export class BeaconTransport implements Transport {
+  name = 'beacon';
+  // 浏览器限制单次 Beacon 约 64KB，预留余量
+  maxPayloadSize = 60 * 1024;
+
+  isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function';
+  }
+
+  async send(payload: TransportPayload): Promise<void> {
+    const blob = new Blob([payload.compressedBody || payload.body], {
+      type: 'application/json'
+    });
+
+    // 返回 false 通常是浏览器队列已满或数据过大，重试没有意义
+    if (!navigator.sendBeacon(this.getUrl(payload), blob)) {
+      throw new ReportError('Beacon API上报失败', { retryable: false });
+    }
+  }
+
+  /**
+   * Beacon 无法设置请求头，压缩格式和分片信息通过 URL 参数告知服务端
+   * @private
+   */
+  private getUrl(payload: TransportPayload): string {
+    if (!payload.batch && !payload.encoding) {
+      return payload.url;
+    }
+    const url = appendBatchParams(new URL(payload.url), payload);
+    if (payload.encoding) {
+      url.searchParams.set('encoding', payload.encoding);
+    }
+    return url.toString();
+  }
+}
@@ -0,0 +1,42 @@
+import { Transport, TransportPayload } from '@senmu/types';
+import { ReportError, parseRetryAfter } from '../retry';
+import { getByteLength } from '../chunk';
+
+// 浏览器限制 keepalive 请求体总计约 64KB，预留余量
+const KEEPALIVE_LIMIT = 60 * 1024;
+
+/**
+ * fetch 上报通道，支持自定义请求头，非 2xx 响应视为失败
+ */
+export class FetchTransport implements Transport {
+  name = 'fetch';
+  maxPayloadSize = 512 * 1024;
+
+  isSupported(): boolean {
+    return typeof fetch === 'function';
+  }
+
+  async send(payload: TransportPayload): Promise<void> {
+    const body = payload.compressedBody || payload.body;
+    const size = typeof body === 'string' ? getByteLength(body) : body.byteLength;
+    const response = await fetch(payload.url, {
+      method: 'POST',
+      headers: payload.headers,
+      body,
+      credentials: 'include',
+      // 页面卸载（如 pagehide 时上报）后请求不会被浏览器取消，超出限制的请求会直接失败，因此只对小请求开启
+      keepalive: size <= KEEPALIVE_LIMIT
+    });
+
+    if (!response.ok) {
+      // 仅 429/503 携带的 Retry-After 有意义
+      const retryAfter = response.status === 429 || response.status === 503
+        ? parseRetryAfter(response.headers?.get('Retry-After'))
+        : undefined;
+      throw new ReportError(`上报失败: ${response.status} ${response.statusText}`, {
+        status: response.status,
+        retryAfter
+      });
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { Transport, TransportPayload } from '@senmu/types';
+import { ReportError } from '../retry';
+import { appendBatchParams } from './utils';
+
+/**
+ * 图片上报通道（兼容性最好，数据通过 GET 参数携带）
+ */
+export class ImageTransport implements Transport {
+  name = 'image';
+  // URL 编码后 data 参数的默认最大长度，预留一些空间给其他参数，超出时拆分为多个 GET 请求
+  maxPayloadSize = 2000;
+
+  isSupported(): boolean {
+    return typeof Image !== 'undefined';
+  }
+
+  /**
+   * 数据以 URL 参数携带，按编码后的长度计算，中文等字符编码后约为原来的 3 倍
+   */
+  measurePayload(body: string): number {
+    return encodeURIComponent(body).length;
+  }
+
+  async send(payload: TransportPayload): Promise<void> {
+    // 单条数据本身超限时无法拆分，交由调用方保留数据或降级到其他通道
+    const maxSize = payload.maxSize ?? this.maxPayloadSize;
+    if (this.measurePayload(payload.body) > maxSize) {
+      throw new ReportError('数据过大，无法使用图片上报', { retryable: false });
+    }
+
+    const img = new Image();
+    // 使用 URL 对象处理路径
+    const url = new URL(payload.url);
+    url.pathname = url.pathname.endsWith('/') ? url.pathname + '1x1.gif' : url.pathname + '/1x1.gif';
+    url.searchParams.set('data', payload.body);
+    appendBatchParams(url, payload);
+
+    // 添加加载失败处理
+    img.onerror = () => {
+      console.error('[web-moniter] 图片上报失败');
+    };
+    img.src = url.toString();
+  }
+}
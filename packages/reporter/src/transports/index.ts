@@ -0,0 +1,13 @@
+import { Transport } from '@senmu/types';
+import { FetchTransport } from './fetch';
+import { BeaconTransport } from './beacon';
+import { ImageTransport } from './image';
+
+export { FetchTransport, BeaconTransport, ImageTransport };
+
+/**
+ * 创建内置上报通道
+ */
+export function createBuiltinTransports(): Transport[] {
+  return [new FetchTransport(), new BeaconTransport(), new ImageTransport()];
+}
@@ -0,0 +1,13 @@
+import { TransportPayload } from '@senmu/types';
+
+/**
+ * 无法携带请求头的通道通过 URL 参数传递分片信息
+ */
+export function appendBatchParams(url: URL, payload: TransportPayload): URL {
+  if (payload.batch) {
+    url.searchParams.set('batchId', payload.batch.id);
+    url.searchParams.set('batchSeq', String(payload.batch.seq));
+    url.searchParams.set('batchTotal', String(payload.batch.total));
+  }
+  return url;
+}
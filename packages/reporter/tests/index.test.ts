@@ -168,6 +168,8 @@ describe('Reporter', () => {
     });
 
     it('当 sendBeacon 和 fetch 都失败时应该使用图片上报', async () => {
+      // 关闭重试，只验证降级链路
+      reporter.setConfig({ retry: false });
       // 设置 sendBeacon 返回失败
       vi.mocked(navigator.sendBeacon).mockReturnValueOnce(false);
       // 设置 fetch 失败
@@ -200,7 +202,9 @@ describe('Reporter', () => {
       expect(mockImage.src).toBe('https://test.com/report/1x1.gif?data=' + encodeURIComponent(JSON.stringify([metric])));
     });
 
-    it('当数据过大时应该跳过图片上报', async () => {
+    it('当数据过大时图片上报应该失败，而不是视为已送达', async () => {
+      // 关闭重试，只验证降级链路
+      reporter.setConfig({ retry: false });
       // 设置 sendBeacon 返回失败
       vi.mocked(navigator.sendBeacon).mockReturnValueOnce(false);
       // 设置 fetch 失败
@@ -217,23 +221,44 @@ describe('Reporter', () => {
         pageUrl: 'https://test.com'
       };
 
-      const consoleSpy = vi.spyOn(console, 'warn');
+      const imageSpy = vi.spyOn(window, 'Image');
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
 
-      await reporter.send(metric);
+      await expect(reporter.send(metric)).rejects.toThrow('数据过大，无法使用图片上报');
 
       // 验证 sendBeacon 被调用
       expect(navigator.sendBeacon).toHaveBeenCalledTimes(1);
       // 验证 fetch 被调用
       expect(fetch).toHaveBeenCalledTimes(1);
-      // 验证警告被记录
-      expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('[web-moniter] 数据过大，无法使用图片上报')
-      );
+      // 验证没有发出图片请求
+      expect(imageSpy).not.toHaveBeenCalled();
+    });
+
+    it('图片上报应该按 URL 编码后的长度判断是否超限', async () => {
+      reporter.setConfig({ transports: ['image'], retry: false });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const imageSpy = vi.spyOn(window, 'Image');
+
+      // UTF-8 字节数约 1800，URL 编码后超过 5000
+      const metric: MetricData = {
+        type: MetricType.CUSTOM,
+        name: 'test-metric',
+        value: '错'.repeat(600),
+        timestamp: Date.now(),
+        project: 'test-project',
+        pageUrl: 'https://test.com'
+      };
+
+      await expect(reporter.send(metric)).rejects.toThrow('数据过大，无法使用图片上报');
+      expect(imageSpy).not.toHaveBeenCalled();
     });
   });
   
   describe('错误处理', () => {
     it('应该处理 fetch 错误', async () => {
+      // 关闭重试，只验证单次失败
+      reporter.setConfig({ retry: false });
       // 模拟 fetch 失败
       vi.mocked(fetch).mockRejectedValueOnce(new Error('网络错误'));
       
@@ -290,6 +315,605 @@ describe('Reporter', () => {
     });
   });
   
+  describe('上报通道', () => {
+    const metric: MetricData = {
+      type: MetricType.CUSTOM,
+      name: 'transport-metric',
+      value: 1,
+      timestamp: Date.now(),
+      project: 'test-project',
+      pageUrl: 'https://test.com'
+    };
+
+    const createTransport = (name: string, send = vi.fn().mockResolvedValue(undefined)) => ({
+      name,
+      isSupported: () => true,
+      send
+    });
+
+    it('应该支持注册自定义通道并按配置顺序使用', async () => {
+      const bridge = createTransport('native-bridge');
+      reporter.registerTransport(bridge);
+      reporter.setConfig({ transports: ['native-bridge', 'fetch'] });
+
+      await reporter.send(metric);
+
+      expect(bridge.send).toHaveBeenCalledWith(expect.objectContaining({
+        url: 'https://test.com/report',
+        body: JSON.stringify([metric]),
+        metrics: [metric]
+      }));
+      expect(fetch).not.toHaveBeenCalled();
+      expect(navigator.sendBeacon).not.toHaveBeenCalled();
+    });
+
+    it('应该支持直接传入通道对象，失败时降级到下一个通道', async () => {
+      const postMessage = createTransport('post-message', vi.fn().mockRejectedValue(new Error('no parent')));
+      reporter.setConfig({ transports: [postMessage, 'fetch'], retry: false });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await reporter.send(metric, true);
+
+      expect(postMessage.send).toHaveBeenCalledTimes(1);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('应该跳过当前环境不支持的通道', async () => {
+      const unsupported = { ...createTransport('unsupported'), isSupported: () => false };
+      reporter.setConfig({ transports: [unsupported, 'fetch'] });
+
+      await reporter.send(metric);
+
+      expect(unsupported.send).not.toHaveBeenCalled();
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('所有通道都失败时应该 reject', async () => {
+      const failing = createTransport('failing', vi.fn().mockRejectedValue(new Error('bridge down')));
+      reporter.setConfig({ transports: [failing], retry: false });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(reporter.send(metric, true)).rejects.toThrow('bridge down');
+    });
+  });
+  
+  describe('keepalive', () => {
+    const createMetric = (value: string): MetricData => ({
+      type: MetricType.CUSTOM,
+      name: 'keepalive-metric',
+      value,
+      timestamp: Date.now(),
+      project: 'test-project',
+      pageUrl: 'https://test.com'
+    });
+
+    it('小于 keepalive 限制的 fetch 请求应该开启 keepalive，避免页面卸载时被取消', async () => {
+      await reporter.send(createMetric('x'), true);
+
+      expect(vi.mocked(fetch).mock.calls[0][1]).toEqual(expect.objectContaining({ keepalive: true }));
+    });
+
+    it('超出 keepalive 限制的请求不应该开启 keepalive', async () => {
+      await reporter.send(createMetric('x'.repeat(70 * 1024)), true);
+
+      expect(vi.mocked(fetch).mock.calls[0][1]).toEqual(expect.objectContaining({ keepalive: false }));
+    });
+  });
+  
+  describe('数据压缩', () => {
+    const largeMetric: MetricData = {
+      type: MetricType.CUSTOM,
+      name: 'compress-metric',
+      value: 'x'.repeat(5000),
+      timestamp: Date.now(),
+      project: 'test-project',
+      pageUrl: 'https://test.com'
+    };
+
+    const decompress = async (data: Uint8Array, format: 'gzip' | 'deflate') => {
+      const stream = new DecompressionStream(format);
+      const writer = stream.writable.getWriter();
+      writer.write(data);
+      writer.close();
+      const reader = stream.readable.getReader();
+      const decoder = new TextDecoder();
+      let text = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        text += decoder.decode(value, { stream: true });
+      }
+      return text + decoder.decode();
+    };
+
+    it('开启 gzip 压缩时应该发送压缩数据并设置 Content-Encoding', async () => {
+      reporter.setConfig({ compression: 'gzip' });
+
+      await reporter.send(largeMetric, true);
+
+      const init = vi.mocked(fetch).mock.calls[0][1]!;
+      expect(init.headers).toEqual(expect.objectContaining({ 'Content-Encoding': 'gzip' }));
+      expect(init.body).toBeInstanceOf(Uint8Array);
+      expect((init.body as Uint8Array).byteLength).toBeLessThan(JSON.stringify([largeMetric]).length);
+      expect(await decompress(init.body as Uint8Array, 'gzip')).toBe(JSON.stringify([largeMetric]));
+    });
+
+    it('Beacon 上报时应该通过 URL 参数携带压缩格式', async () => {
+      reporter.setConfig({ compression: 'deflate' });
+
+      await reporter.send(largeMetric);
+
+      expect(navigator.sendBeacon).toHaveBeenCalledWith(
+        'https://test.com/report?encoding=deflate',
+        expect.any(Object)
+      );
+    });
+
+    it('页面隐藏时应该跳过压缩，同步调用 sendBeacon', () => {
+      reporter.setConfig({ compression: 'gzip' });
+      const visibility = vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+
+      // 不等待 send 返回的 Promise，模拟页面卸载时无法继续执行异步任务
+      reporter.send(largeMetric);
+      visibility.mockRestore();
+
+      expect(navigator.sendBeacon).toHaveBeenCalledWith('https://test.com/report', expect.any(Object));
+    });
+
+    it('压缩流写入失败时应该回退为不压缩，且不产生未处理的 rejection', async () => {
+      class FailingCompressionStream {
+        readable: ReadableStream<Uint8Array>;
+        writable: WritableStream<Uint8Array>;
+        constructor() {
+          const transform = new TransformStream<Uint8Array, Uint8Array>({
+            transform() {
+              throw new Error('压缩失败');
+            }
+          });
+          this.readable = transform.readable;
+          this.writable = transform.writable;
+        }
+      }
+      vi.stubGlobal('CompressionStream', FailingCompressionStream);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const unhandled = vi.fn();
+      process.on('unhandledRejection', unhandled);
+      reporter.setConfig({ compression: 'gzip' });
+
+      try {
+        await reporter.send(largeMetric, true);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      } finally {
+        vi.unstubAllGlobals();
+        process.off('unhandledRejection', unhandled);
+      }
+
+      const init = vi.mocked(fetch).mock.calls[0][1]!;
+      expect(init.body).toBe(JSON.stringify([largeMetric]));
+      expect(unhandled).not.toHaveBeenCalled();
+    });
+
+    it('数据过小时不应该压缩', async () => {
+      reporter.setConfig({ compression: 'gzip' });
+
+      await reporter.send({ ...largeMetric, value: 1 }, true);
+
+      const init = vi.mocked(fetch).mock.calls[0][1]!;
+      expect(init.headers).not.toHaveProperty('Content-Encoding');
+      expect(typeof init.body).toBe('string');
+    });
+
+    it('不支持 CompressionStream 时应该回退为不压缩', async () => {
+      vi.stubGlobal('CompressionStream', undefined);
+      reporter.setConfig({ compression: 'gzip' });
+
+      try {
+        await reporter.send(largeMetric, true);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+
+      const init = vi.mocked(fetch).mock.calls[0][1]!;
+      expect(init.headers).not.toHaveProperty('Content-Encoding');
+      expect(init.body).toBe(JSON.stringify([largeMetric]));
+    });
+  });
+  
+  describe('按大小拆分批次', () => {
+    const createMetrics = (count: number): MetricData[] => Array.from({ length: count }, (_, i) => ({
+      type: MetricType.CUSTOM,
+      name: `split-metric-${i}`,
+      value: 'v'.repeat(100),
+      timestamp: 1700000000000,
+      project: 'test-project',
+      pageUrl: 'https://test.com'
+    }));
+    const metricSize = JSON.stringify(createMetrics(1)[0]).length;
+
+    it('fetch 请求体超出限制时应该拆分并携带分片请求头', async () => {
+      // 每个分片最多容纳两条数据
+      reporter.setConfig({ payloadLimits: { fetch: metricSize * 2 + 3 } });
+
+      await reporter.send(createMetrics(5), true);
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      const calls = vi.mocked(fetch).mock.calls;
+      const batchIds = new Set(calls.map(call => (call[1]!.headers as any)['X-Batch-Id']));
+      expect(batchIds.size).toBe(1);
+      expect(calls.map(call => (call[1]!.headers as any)['X-Batch-Seq'])).toEqual(['0', '1', '2']);
+      expect(calls.map(call => (call[1]!.headers as any)['X-Batch-Total'])).toEqual(['3', '3', '3']);
+      expect(calls.map(call => JSON.parse(call[1]!.body as string).length)).toEqual([2, 2, 1]);
+    });
+
+    it('未拆分时不应该携带分片信息', async () => {
+      await reporter.send(createMetrics(2), true);
+
+      const init = vi.mocked(fetch).mock.calls[0][1]!;
+      expect(init.headers).not.toHaveProperty('X-Batch-Id');
+    });
+
+    it('Beacon 数据应该保持在限制以内并通过 URL 携带分片序号', async () => {
+      reporter.setConfig({ payloadLimits: { beacon: metricSize + 2 } });
+
+      await reporter.send(createMetrics(3));
+
+      expect(navigator.sendBeacon).toHaveBeenCalledTimes(3);
+      const urls = vi.mocked(navigator.sendBeacon).mock.calls.map(call => new URL(call[0] as string));
+      expect(urls.map(url => url.searchParams.get('batchSeq'))).toEqual(['0', '1', '2']);
+      expect(urls.every(url => url.searchParams.get('batchTotal') === '3')).toBe(true);
+    });
+
+    it('图片上报应该拆分为多个 GET 请求', async () => {
+      reporter.setConfig({ transports: ['image'] });
+      const images: Array<{ src: string }> = [];
+      vi.spyOn(window, 'Image').mockImplementation(() => {
+        const img = { src: '', onerror: null };
+        images.push(img);
+        return img as any;
+      });
+
+      // 默认图片数据上限为 2000 字节
+      await reporter.send(createMetrics(20));
+
+      expect(images.length).toBeGreaterThan(1);
+      images.forEach((img, index) => {
+        const url = new URL(img.src);
+        expect(url.searchParams.get('data')!.length).toBeLessThanOrEqual(2000);
+        expect(url.searchParams.get('batchSeq')).toBe(String(index));
+        expect(url.searchParams.get('batchTotal')).toBe(String(images.length));
+      });
+      const sent = images.flatMap(img => JSON.parse(new URL(img.src).searchParams.get('data')!));
+      expect(sent).toHaveLength(20);
+    });
+
+    it('图片上报应该按 URL 编码后的长度拆分', async () => {
+      reporter.setConfig({ transports: ['image'] });
+      const images: Array<{ src: string }> = [];
+      vi.spyOn(window, 'Image').mockImplementation(() => {
+        const img = { src: '', onerror: null };
+        images.push(img);
+        return img as any;
+      });
+      const metrics = createMetrics(6).map(metric => ({ ...metric, value: '中文'.repeat(50) }));
+
+      await reporter.send(metrics);
+
+      images.forEach(img => {
+        const data = new URL(img.src).searchParams.get('data')!;
+        expect(encodeURIComponent(data).length).toBeLessThanOrEqual(2000);
+      });
+      const sent = images.flatMap(img => JSON.parse(new URL(img.src).searchParams.get('data')!));
+      expect(sent).toHaveLength(6);
+    });
+
+    it('分片失败时只将剩余数据降级到下一个通道', async () => {
+      reporter.setConfig({ payloadLimits: { beacon: metricSize + 2 } });
+      vi.mocked(navigator.sendBeacon)
+        .mockReturnValueOnce(true)
+        .mockReturnValueOnce(false);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await reporter.send(createMetrics(3));
+
+      expect(navigator.sendBeacon).toHaveBeenCalledTimes(2);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+      expect(body.map((m: any) => m.name)).toEqual(['split-metric-1', 'split-metric-2']);
+    });
+
+    it('所有通道都失败时应该只返回未送达的分片', async () => {
+      reporter.setConfig({ payloadLimits: { fetch: metricSize + 2 }, retry: { maxAttempts: 1 } });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({ ok: true } as any)
+        .mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Server Error' } as any);
+
+      const metrics = createMetrics(3);
+      const result = await reporter.send(metrics, true).catch(err => err);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      // 第一个分片已送达，不应交还调用方重复发送
+      expect(result.undelivered).toEqual(metrics.slice(1));
+    });
+
+    it('图片上报应该使用配置的大小限制', async () => {
+      reporter.setConfig({ transports: ['image'], payloadLimits: { image: 8000 } });
+      const images: Array<{ src: string }> = [];
+      vi.spyOn(window, 'Image').mockImplementation(() => {
+        const img = { src: '', onerror: null };
+        images.push(img);
+        return img as any;
+      });
+      const metrics = createMetrics(2).map(metric => ({ ...metric, value: 'x'.repeat(2500) }));
+
+      await reporter.send(metrics);
+
+      // 单条数据超过默认的 2000，但在配置的限制以内
+      expect(images).toHaveLength(1);
+      expect(JSON.parse(new URL(images[0].src).searchParams.get('data')!)).toHaveLength(2);
+    });
+  });
+  
+  describe('按类型路由', () => {
+    const createMetric = (type: MetricType): MetricData => ({
+      type,
+      name: `${type}-metric`,
+      value: 1,
+      timestamp: Date.now(),
+      project: 'test-project',
+      pageUrl: 'https://test.com'
+    } as MetricData);
+
+    it('应该将混合批次按类型分组发送到各自的地址', async () => {
+      reporter.setConfig({
+        routes: {
+          [MetricType.JS_ERROR]: { url: 'https://errors.test.com/collect', headers: { 'X-Service': 'errors' } },
+          [MetricType.API]: { url: 'https://apis.test.com/collect' }
+        }
+      });
+
+      await reporter.send([
+        createMetric(MetricType.JS_ERROR),
+        createMetric(MetricType.API),
+        createMetric(MetricType.JS_ERROR),
+        createMetric(MetricType.CUSTOM)
+      ], true);
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      const calls = vi.mocked(fetch).mock.calls;
+      const byUrl = Object.fromEntries(calls.map(call => [call[0], call[1]!]));
+
+      expect(JSON.parse(byUrl['https://errors.test.com/collect'].body as string)).toHaveLength(2);
+      expect(byUrl['https://errors.test.com/collect'].headers).toEqual(expect.objectContaining({ 'X-Service': 'errors' }));
+      expect(JSON.parse(byUrl['https://apis.test.com/collect'].body as string)).toHaveLength(1);
+      // 未匹配的类型使用默认地址
+      expect(JSON.parse(byUrl['https://test.com/report'].body as string)).toHaveLength(1);
+    });
+
+    it('应该使用通配路由兜底', async () => {
+      reporter.setConfig({
+        routes: {
+          [MetricType.PV]: { url: 'https://pv.test.com/collect' },
+          '*': { url: 'https://default.test.com/collect' }
+        }
+      });
+
+      await reporter.send([createMetric(MetricType.PV), createMetric(MetricType.CUSTOM)], true);
+
+      const urls = vi.mocked(fetch).mock.calls.map(call => call[0]).sort();
+      expect(urls).toEqual(['https://default.test.com/collect', 'https://pv.test.com/collect']);
+    });
+
+    it('应该为每个路由使用各自的上报通道', async () => {
+      const bridge = { name: 'bridge', isSupported: () => true, send: vi.fn().mockResolvedValue(undefined) };
+      reporter.setConfig({
+        routes: {
+          [MetricType.PERFORMANCE]: { url: 'https://perf.test.com/collect', transports: [bridge] }
+        }
+      });
+
+      await reporter.send([createMetric(MetricType.PERFORMANCE), createMetric(MetricType.CUSTOM)], true);
+
+      expect(bridge.send).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://perf.test.com/collect' }));
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(fetch).toHaveBeenCalledWith('https://test.com/report', expect.any(Object));
+    });
+
+    it('某个路由熔断时不应该影响其他路由', async () => {
+      reporter.setConfig({
+        retry: { maxAttempts: 1, circuitThreshold: 1 },
+        routes: { [MetricType.JS_ERROR]: { url: 'https://errors.test.com/collect' } }
+      });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Unavailable' } as any);
+
+      await expect(reporter.send(createMetric(MetricType.JS_ERROR), true)).rejects.toThrow();
+      await expect(reporter.send(createMetric(MetricType.JS_ERROR), true)).rejects.toThrow('已暂停上报');
+      await expect(reporter.send(createMetric(MetricType.CUSTOM), true)).resolves.toBeUndefined();
+    });
+
+    it('某个路由失败时应该只返回该路由未送达的数据', async () => {
+      reporter.setConfig({
+        retry: { maxAttempts: 1 },
+        routes: {
+          [MetricType.JS_ERROR]: { url: 'https://errors.test.com/collect' },
+          [MetricType.PV]: { url: 'https://pv.test.com/collect' }
+        }
+      });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({ ok: true } as any)
+        .mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Server Error' } as any);
+
+      const error = createMetric(MetricType.JS_ERROR);
+      const pv = createMetric(MetricType.PV);
+      const result = await reporter.send([error, pv], true).catch(err => err);
+
+      expect(result).toBeInstanceOf(Error);
+      expect(result.message).toContain('上报失败: 500');
+      // 错误数据已送达，只有 PV 需要重新上报
+      expect(result.undelivered).toEqual([pv]);
+      expect(vi.mocked(fetch).mock.calls.map(call => call[0])).toEqual([
+        'https://errors.test.com/collect',
+        'https://pv.test.com/collect'
+      ]);
+    });
+  });
+  
+  describe('发送队列', () => {
+    const createMetric = (value: number): MetricData => ({
+      type: MetricType.CUSTOM,
+      name: 'queue-metric',
+      value,
+      timestamp: Date.now(),
+      project: 'test-project',
+      pageUrl: 'https://test.com'
+    });
+
+    it('并发发送时不应该丢弃批次', async () => {
+      await Promise.all([
+        reporter.send(createMetric(1), true),
+        reporter.send(createMetric(2), true),
+        reporter.send(createMetric(3), true)
+      ]);
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('应该按配置限制并发数', async () => {
+      reporter.setConfig({ sendConcurrency: 1 });
+
+      const resolvers: Array<(value: any) => void> = [];
+      const pendingFetch = () => new Promise<any>(resolve => resolvers.push(resolve));
+      vi.mocked(fetch)
+        .mockImplementationOnce(pendingFetch)
+        .mockImplementationOnce(pendingFetch);
+
+      const first = reporter.send(createMetric(1), true);
+      const second = reporter.send(createMetric(2), true);
+
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+
+      resolvers[0]({ ok: true });
+      await first;
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+
+      resolvers[1]({ ok: true });
+      await expect(second).resolves.toBeUndefined();
+    });
+
+    it('每个批次的 Promise 应该反映各自的发送结果', async () => {
+      reporter.setConfig({ retry: false });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(fetch)
+        .mockResolvedValueOnce({ ok: true } as any)
+        .mockResolvedValueOnce({ ok: false, status: 400, statusText: 'Bad Request' } as any);
+
+      const results = await Promise.allSettled([
+        reporter.send(createMetric(1), true),
+        reporter.send(createMetric(2), true)
+      ]);
+
+      expect(results[0].status).toBe('fulfilled');
+      expect(results[1].status).toBe('rejected');
+    });
+  });
+  
+  describe('重试与熔断', () => {
+    const metric: MetricData = {
+      type: MetricType.CUSTOM,
+      name: 'retry-metric',
+      value: 1,
+      timestamp: Date.now(),
+      project: 'test-project',
+      pageUrl: 'https://test.com'
+    };
+
+    const errorResponse = (status: number, retryAfter?: string) => ({
+      ok: false,
+      status,
+      statusText: 'Error',
+      headers: { get: (name: string) => (name === 'Retry-After' ? retryAfter ?? null : null) }
+    });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('应该在服务端错误时按指数退避重试', async () => {
+      reporter.setConfig({ retry: { maxAttempts: 3, baseDelay: 100, jitter: false } });
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(errorResponse(500) as any)
+        .mockResolvedValueOnce(errorResponse(502) as any);
+
+      const promise = reporter.send(metric, true);
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(200);
+
+      await expect(promise).resolves.toBeUndefined();
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('不应该重试 4xx 客户端错误', async () => {
+      reporter.setConfig({ retry: { maxAttempts: 3, baseDelay: 100, jitter: false } });
+      vi.mocked(fetch).mockResolvedValueOnce(errorResponse(400) as any);
+
+      await expect(reporter.send(metric, true)).rejects.toThrow('上报失败: 400');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('应该遵循 429 响应的 Retry-After', async () => {
+      reporter.setConfig({ retry: { maxAttempts: 2, baseDelay: 100, jitter: false } });
+      vi.mocked(fetch).mockResolvedValueOnce(errorResponse(429, '2') as any);
+
+      const promise = reporter.send(metric, true);
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+
+      await expect(promise).resolves.toBeUndefined();
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('连续失败达到阈值后应该熔断，冷却后恢复', async () => {
+      reporter.setConfig({ retry: { maxAttempts: 1, circuitThreshold: 2, circuitCooldown: 1000 } });
+      vi.mocked(fetch).mockResolvedValue(errorResponse(503) as any);
+
+      await expect(reporter.send(metric, true)).rejects.toThrow();
+      await expect(reporter.send(metric, true)).rejects.toThrow();
+      expect(fetch).toHaveBeenCalledTimes(2);
+
+      // 熔断期间不再请求
+      await expect(reporter.send(metric, true)).rejects.toThrow('已暂停上报');
+      expect(fetch).toHaveBeenCalledTimes(2);
+
+      vi.advanceTimersByTime(1000);
+      vi.mocked(fetch).mockResolvedValue({ ok: true } as any);
+
+      await expect(reporter.send(metric, true)).resolves.toBeUndefined();
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('Retry-After 超过最大退避时间时应该直接熔断', async () => {
+      reporter.setConfig({ retry: { maxAttempts: 3, maxDelay: 1000 } });
+      vi.mocked(fetch).mockResolvedValueOnce(errorResponse(503, '60') as any);
+
+      await expect(reporter.send(metric, true)).rejects.toThrow('上报失败: 503');
+      await expect(reporter.send(metric, true)).rejects.toThrow('已暂停上报');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+  
   describe('销毁功能', () => {
     it('应该正确标记为已销毁', async () => {
       reporter.destroy();
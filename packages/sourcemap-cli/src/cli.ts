@@ -0,0 +1,175 @@
+import * as path from 'path';
+import { createManifest, writeManifest } from './manifest';
+import { scanBuildDir } from './scan';
+import { copyToStore } from './store';
+import { stripBundles } from './strip';
+import { uploadSourceMaps } from './upload';
+
+/**
+ * 命令行参数
+ */
+export interface CliOptions {
+  // 构建目录
+  dir: string;
+  // 应用版本，需要与 MoniterConfig.appVersion 一致
+  appVersion: string;
+  // 上传地址
+  url?: string;
+  // 本地存储根目录
+  store?: string;
+  // 发布清单输出路径
+  manifest: string;
+  headers: Record<string, string>;
+  concurrency?: number;
+  // 是否删除构建产物中的 sourceMappingURL 注释
+  strip: boolean;
+}
+
+/**
+ * 命令行输出
+ */
+export interface CliIO {
+  log: (message: string) => void;
+  error: (message: string) => void;
+}
+
+export const HELP = `用法: senmu-sourcemap <build-dir> --app-version <version> [选项]
+
+选项:
+  --app-version <version>  应用版本，与 MoniterConfig.appVersion 一致（或环境变量 SENMU_APP_VERSION）
+  --url <url>              上传 source map 的 HTTP 地址
+  --store <dir>            复制 source map 到本地存储 <dir>/<appVersion>/
+  --header <name:value>    上传时附带的请求头，可重复
+  --manifest <file>        发布清单输出路径，默认 sourcemap-manifest.json
+  --concurrency <n>        同时进行中的上传请求数，默认 4
+  --strip                  删除构建产物中的 sourceMappingURL 注释
+  -h, --help               显示帮助`;
+
+const VALUE_FLAGS = ['app-version', 'url', 'store', 'header', 'manifest', 'concurrency'];
+
+/**
+ * 解析命令行参数，参数错误时抛出异常
+ */
+export function parseArgs(argv: string[], env: Record<string, string | undefined> = {}): CliOptions {
+  const positional: string[] = [];
+  const values: Record<string, string[]> = {};
+  let strip = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf('=');
+    const name = arg.slice(2, eq === -1 ? undefined : eq);
+    if (name === 'strip') {
+      strip = true;
+      continue;
+    }
+    if (!VALUE_FLAGS.includes(name)) {
+      throw new Error(`未知参数: ${arg}`);
+    }
+
+    const value = eq === -1 ? argv[++i] : arg.slice(eq + 1);
+    if (value === undefined) {
+      throw new Error(`参数 --${name} 缺少值`);
+    }
+    (values[name] = values[name] || []).push(value);
+  }
+
+  if (positional.length !== 1) {
+    throw new Error('需要指定一个构建目录');
+  }
+
+  const appVersion = values['app-version']?.[0] || env.SENMU_APP_VERSION;
+  if (!appVersion) {
+    throw new Error('需要指定 --app-version');
+  }
+
+  const headers: Record<string, string> = {};
+  for (const header of values.header || []) {
+    const index = header.indexOf(':');
+    if (index <= 0) {
+      throw new Error(`无效的请求头: ${header}`);
+    }
+    headers[header.slice(0, index).trim()] = header.slice(index + 1).trim();
+  }
+
+  const concurrency = values.concurrency ? Number(values.concurrency[0]) : undefined;
+  if (concurrency !== undefined && !(concurrency >= 1)) {
+    throw new Error(`无效的并发数: ${values.concurrency![0]}`);
+  }
+
+  return {
+    dir: positional[0],
+    appVersion,
+    url: values.url?.[0],
+    store: values.store?.[0],
+    manifest: values.manifest?.[0] || 'sourcemap-manifest.json',
+    headers,
+    concurrency,
+    strip
+  };
+}
+
+/**
+ * 执行命令：扫描构建目录 -> 生成清单 -> 上传或复制 -> 删除 sourceMappingURL 注释
+ * @returns 进程退出码
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = { log: console.log, error: console.error },
+  env: Record<string, string | undefined> = process.env
+): Promise<number> {
+  if (argv.includes('-h') || argv.includes('--help')) {
+    io.log(HELP);
+    return 0;
+  }
+
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv, env);
+  } catch (err) {
+    io.error(`${(err as Error).message}\n\n${HELP}`);
+    return 1;
+  }
+
+  try {
+    const { dir, entries, unmatched } = await scanBuildDir(options.dir);
+    for (const file of unmatched) {
+      io.log(`未找到 source map: ${file}`);
+    }
+
+    const manifest = createManifest(options.appVersion, entries);
+    await writeManifest(options.manifest, manifest);
+    io.log(`已生成发布清单 ${path.resolve(options.manifest)}，共 ${entries.length} 个文件`);
+
+    if (options.store) {
+      const versionDir = await copyToStore({ dir, store: options.store, manifest });
+      io.log(`已复制到 ${versionDir}`);
+    }
+
+    if (options.url) {
+      const { uploaded } = await uploadSourceMaps({
+        dir,
+        url: options.url,
+        manifest,
+        headers: options.headers,
+        concurrency: options.concurrency
+      });
+      io.log(`已上传 ${uploaded.length} 个文件到 ${options.url}`);
+    }
+
+    if (options.strip) {
+      const changed = await stripBundles(dir, [...entries.map(entry => entry.file), ...unmatched]);
+      io.log(`已删除 ${changed} 个文件中的 sourceMappingURL 注释`);
+    }
+
+    return 0;
+  } catch (err) {
+    io.error((err as Error).message);
+    return 1;
+  }
+}
@@ -0,0 +1,10 @@
+export { runCli, parseArgs, HELP } from './cli';
+export type { CliOptions, CliIO } from './cli';
+export { scanBuildDir, parseSourceMappingURL, parseDebugId, normalizeDebugId } from './scan';
+export type { ScanResult } from './scan';
+export { createManifest, writeManifest, assertValidAppVersion, MANIFEST_FILE } from './manifest';
+export { copyToStore } from './store';
+export type { CopyOptions } from './store';
+export { uploadSourceMaps } from './upload';
+export type { UploadOptions, UploadResult } from './upload';
+export { stripSourceMappingURL, stripBundles } from './strip';
@@ -0,0 +1,36 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SourceMapManifest, SourceMapManifestEntry } from '@senmu/types';
+
+// 本地存储与上传时使用的清单文件名
+export const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * 校验 appVersion，版本号会作为目录名使用，不允许包含路径分隔符
+ */
+export function assertValidAppVersion(appVersion: string) {
+  if (!appVersion || appVersion === '.' || appVersion === '..' || /[\\/\0]/.test(appVersion)) {
+    throw new Error(`无效的 appVersion: ${JSON.stringify(appVersion)}`);
+  }
+}
+
+/**
+ * 生成发布清单
+ */
+export function createManifest(appVersion: string, entries: SourceMapManifestEntry[]): SourceMapManifest {
+  assertValidAppVersion(appVersion);
+  return {
+    version: 1,
+    appVersion,
+    createdAt: new Date().toISOString(),
+    files: entries
+  };
+}
+
+/**
+ * 将发布清单写入文件
+ */
+export async function writeManifest(file: string, manifest: SourceMapManifest): Promise<void> {
+  await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(manifest, null, 2));
+}
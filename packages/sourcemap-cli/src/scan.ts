@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SourceMapManifestEntry } from '@senmu/types';
+
+/**
+ * 扫描结果
+ */
+export interface ScanResult {
+  // 构建目录的绝对路径
+  dir: string;
+  // 成功匹配到 source map 的构建产物
+  entries: SourceMapManifestEntry[];
+  // 没有匹配到 source map 的构建产物（相对路径）
+  unmatched: string[];
+}
+
+const SCRIPT_FILE = /\.(?:js|mjs|cjs)$/;
+const SOURCE_MAPPING_URL = /(?:\/\/|\/\*)[#@]\s*sourceMappingURL=(\S+?)\s*(?:\*\/)?\s*$/gm;
+const DEBUG_ID = /(?:\/\/|\/\*)[#@]\s*debugId=([0-9a-fA-F-]{32,36})\s*(?:\*\/)?\s*$/m;
+
+/**
+ * 读取脚本中最后一个 sourceMappingURL 注释
+ */
+export function parseSourceMappingURL(content: string): string | null {
+  let url: string | null = null;
+  SOURCE_MAPPING_URL.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SOURCE_MAPPING_URL.exec(content))) {
+    url = match[1];
+  }
+  return url;
+}
+
+/**
+ * 读取脚本中的 debugId 注释
+ */
+export function parseDebugId(content: string): string | null {
+  const match = DEBUG_ID.exec(content);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * 统一 debug id 格式，去掉连字符并转小写后比较
+ */
+export function normalizeDebugId(debugId: string): string {
+  return debugId.replace(/-/g, '').toLowerCase();
+}
+
+/**
+ * 扫描构建目录，通过 sourceMappingURL 或 debug id 匹配每个脚本的 source map
+ */
+export async function scanBuildDir(dir: string): Promise<ScanResult> {
+  const root = path.resolve(dir);
+  const files = await listFiles(root);
+  const scripts = files.filter(file => SCRIPT_FILE.test(file));
+  const maps = files.filter(file => file.endsWith('.map'));
+  const mapsByDebugId = await indexByDebugId(root, maps);
+
+  const entries: SourceMapManifestEntry[] = [];
+  const unmatched: string[] = [];
+
+  for (const script of scripts) {
+    const content = await fs.readFile(path.join(root, script), 'utf8');
+    const debugId = parseDebugId(content);
+    const map = resolveMapPath(script, parseSourceMappingURL(content), maps)
+      || (debugId ? mapsByDebugId.get(normalizeDebugId(debugId)) : undefined);
+
+    if (map) {
+      entries.push(debugId ? { file: script, map, debugId } : { file: script, map });
+    } else {
+      unmatched.push(script);
+    }
+  }
+
+  return { dir: root, entries, unmatched };
+}
+
+/**
+ * 根据 sourceMappingURL 找到构建目录内的 .map 文件，内联或外部地址返回 null
+ * @private
+ */
+function resolveMapPath(script: string, url: string | null, maps: string[]): string | null {
+  if (!url || /^data:/i.test(url)) {
+    return null;
+  }
+
+  // 完整地址只取路径部分，在构建目录内按后缀匹配
+  const absolute = /^[a-z][\w+.-]*:\/\/[^/]*(\/[^?#]*)/i.exec(url);
+  if (absolute) {
+    const pathname = safeDecode(absolute[1]).replace(/^\/+/, '');
+    return maps.find(map => pathname === map || pathname.endsWith(`/${map}`)) || null;
+  }
+
+  const relative = path.posix.normalize(
+    path.posix.join(path.posix.dirname(script), safeDecode(url.replace(/[?#].*$/, '')))
+  );
+  return maps.includes(relative) ? relative : null;
+}
+
+/**
+ * 读取 .map 文件中的 debugId（或 debug_id）字段建立索引
+ * @private
+ */
+async function indexByDebugId(root: string, maps: string[]): Promise<Map<string, string>> {
+  const index = new Map<string, string>();
+  for (const map of maps) {
+    try {
+      const json = JSON.parse(await fs.readFile(path.join(root, map), 'utf8'));
+      const debugId = json.debugId || json.debug_id;
+      if (typeof debugId === 'string') {
+        index.set(normalizeDebugId(debugId), map);
+      }
+    } catch (err) {
+      console.warn(`[web-moniter] 无法解析 source map: ${map}`);
+    }
+  }
+  return index;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (err) {
+    return value;
+  }
+}
+
+/**
+ * 递归列出目录下所有文件，返回 posix 风格的相对路径
+ * @private
+ */
+async function listFiles(root: string, current = root): Promise<string[]> {
+  const result: string[] = [];
+  const entries = await fs.readdir(current, { withFileTypes: true });
+  for (const entry of entries) {
+    const fullPath = path.join(current, entry.name);
+    if (entry.isDirectory()) {
+      result.push(...await listFiles(root, fullPath));
+    } else if (entry.isFile()) {
+      result.push(path.relative(root, fullPath).split(path.sep).join('/'));
+    }
+  }
+  return result.sort();
+}
@@ -0,0 +1,34 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SourceMapManifest } from '@senmu/types';
+import { MANIFEST_FILE, assertValidAppVersion, writeManifest } from './manifest';
+
+/**
+ * 复制到本地存储的参数
+ */
+export interface CopyOptions {
+  // 构建目录
+  dir: string;
+  // 本地存储根目录，与 @senmu/symbolicator 的 root 一致
+  store: string;
+  manifest: SourceMapManifest;
+}
+
+/**
+ * 将 source map 复制到本地存储 <store>/<appVersion>/，保持构建目录内的相对路径，并写入清单
+ * @returns 版本目录的绝对路径
+ */
+export async function copyToStore(options: CopyOptions): Promise<string> {
+  const { dir, store, manifest } = options;
+  assertValidAppVersion(manifest.appVersion);
+  const versionDir = path.resolve(store, manifest.appVersion);
+
+  for (const entry of manifest.files) {
+    const target = path.join(versionDir, entry.map);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.copyFile(path.join(dir, entry.map), target);
+  }
+
+  await writeManifest(path.join(versionDir, MANIFEST_FILE), manifest);
+  return versionDir;
+}
@@ -0,0 +1,29 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+const SOURCE_MAPPING_COMMENT = /^[ \t]*(?:\/\/[#@][ \t]*sourceMappingURL=\S*|\/\*[#@][ \t]*sourceMappingURL=\S*?[ \t]*\*\/)[ \t]*(?:\r?\n|$)/gm;
+
+/**
+ * 删除脚本中的 sourceMappingURL 注释
+ */
+export function stripSourceMappingURL(content: string): string {
+  return content.replace(SOURCE_MAPPING_COMMENT, '');
+}
+
+/**
+ * 删除构建产物中的 sourceMappingURL 注释，避免线上暴露 source map 地址
+ * @returns 被修改的文件数量
+ */
+export async function stripBundles(dir: string, files: string[]): Promise<number> {
+  let changed = 0;
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    const content = await fs.readFile(filePath, 'utf8');
+    const stripped = stripSourceMappingURL(content);
+    if (stripped !== content) {
+      await fs.writeFile(filePath, stripped);
+      changed++;
+    }
+  }
+  return changed;
+}
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SourceMapManifest } from '@senmu/types';
+import { MANIFEST_FILE, assertValidAppVersion } from './manifest';
+
+/**
+ * 上传参数
+ */
+export interface UploadOptions {
+  // 构建目录
+  dir: string;
+  // 上传地址，每个文件一次 multipart/form-data POST 请求
+  url: string;
+  manifest: SourceMapManifest;
+  // 自定义请求头，如鉴权信息
+  headers?: Record<string, string>;
+  // 同时进行中的上传请求数，默认 4
+  concurrency?: number;
+  // 自定义 fetch，默认使用全局 fetch
+  fetch?: typeof fetch;
+}
+
+/**
+ * 上传结果
+ */
+export interface UploadResult {
+  // 上传成功的文件（相对路径，清单为 manifest.json）
+  uploaded: string[];
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * 上传 source map 与发布清单
+ * 每个请求携带 appVersion、path（相对构建目录的路径）和 file 三个字段，清单在所有 source map 成功后最后上传
+ */
+export async function uploadSourceMaps(options: UploadOptions): Promise<UploadResult> {
+  const { dir, url, manifest, headers = {} } = options;
+  const fetchImpl = options.fetch || fetch;
+  assertValidAppVersion(manifest.appVersion);
+
+  const send = async (name: string, content: string | Buffer) => {
+    const form = new FormData();
+    form.append('appVersion', manifest.appVersion);
+    form.append('path', name);
+    form.append('file', new Blob([content], { type: 'application/json' }), path.posix.basename(name));
+
+    const response = await fetchImpl(url, { method: 'POST', headers, body: form });
+    if (!response.ok) {
+      throw new Error(`上传 ${name} 失败: HTTP ${response.status}`);
+    }
+  };
+
+  const maps = Array.from(new Set(manifest.files.map(entry => entry.map)));
+  const uploaded: string[] = [];
+  const errors: Error[] = [];
+  let cursor = 0;
+
+  const worker = async () => {
+    while (cursor < maps.length) {
+      const name = maps[cursor++];
+      try {
+        await send(name, await fs.readFile(path.join(dir, name)));
+        uploaded.push(name);
+      } catch (err) {
+        errors.push(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+  };
+
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  await Promise.all(Array.from({ length: Math.min(concurrency, maps.length) }, worker));
+
+  if (errors.length > 0) {
+    throw new Error(errors.map(err => err.message).join('\n'));
+  }
+
+  await send(MANIFEST_FILE, JSON.stringify(manifest));
+  uploaded.push(MANIFEST_FILE);
+  return { uploaded };
+}
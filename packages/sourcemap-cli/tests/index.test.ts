@@ -0,0 +1,192 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  runCli,
+  parseArgs,
+  scanBuildDir,
+  parseSourceMappingURL,
+  parseDebugId,
+  createManifest,
+  copyToStore,
+  uploadSourceMaps,
+  stripSourceMappingURL
+} from '../src/index';
+
+const DEBUG_ID = '85314830-023f-4cf1-a267-535f4e37bb17';
+
+const writeFile = async (root: string, file: string, content: string) => {
+  await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+  await fs.writeFile(path.join(root, file), content);
+};
+
+describe('sourcemap-cli', () => {
+  let tmp: string;
+  let dist: string;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'sourcemap-cli-'));
+    dist = path.join(tmp, 'dist');
+    // 通过 sourceMappingURL 关联
+    await writeFile(dist, 'js/app.js', 'console.log(1);\n//# sourceMappingURL=app.js.map\n');
+    await writeFile(dist, 'js/app.js.map', JSON.stringify({ version: 3, sources: [], mappings: '' }));
+    // 通过 debug id 关联，source map 名称与脚本不同
+    await writeFile(dist, 'js/vendor.js', `console.log(2);\n//# debugId=${DEBUG_ID}\n`);
+    await writeFile(dist, 'maps/vendor.map', JSON.stringify({ version: 3, sources: [], mappings: '', debugId: DEBUG_ID }));
+    // 没有 source map
+    await writeFile(dist, 'js/legacy.js', 'console.log(3);\n');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tmp, { recursive: true, force: true });
+  });
+
+  describe('扫描构建目录', () => {
+    it('应该解析最后一个 sourceMappingURL 与 debugId', () => {
+      expect(parseSourceMappingURL('//# sourceMappingURL=a.map\nx;\n//# sourceMappingURL=b.map')).toBe('b.map');
+      expect(parseSourceMappingURL('x;\n/*# sourceMappingURL=c.map */')).toBe('c.map');
+      expect(parseSourceMappingURL('x;')).toBeNull();
+      expect(parseDebugId(`//# debugId=${DEBUG_ID.toUpperCase()}`)).toBe(DEBUG_ID);
+    });
+
+    it('应该通过 sourceMappingURL 或 debugId 匹配 source map', async () => {
+      const result = await scanBuildDir(dist);
+
+      expect(result.entries).toEqual([
+        { file: 'js/app.js', map: 'js/app.js.map' },
+        { file: 'js/vendor.js', map: 'maps/vendor.map', debugId: DEBUG_ID }
+      ]);
+      expect(result.unmatched).toEqual(['js/legacy.js']);
+    });
+
+    it('完整地址的 sourceMappingURL 应该按路径后缀匹配', async () => {
+      await writeFile(dist, 'js/cdn.js', 'x;\n//# sourceMappingURL=https://cdn.test.com/static/js/app.js.map?v=1\n');
+      const result = await scanBuildDir(dist);
+
+      expect(result.entries).toContainEqual({ file: 'js/cdn.js', map: 'js/app.js.map' });
+    });
+
+    it('内联 source map 不应该匹配', async () => {
+      await writeFile(dist, 'js/inline.js', 'x;\n//# sourceMappingURL=data:application/json;base64,e30=\n');
+      const result = await scanBuildDir(dist);
+
+      expect(result.unmatched).toContain('js/inline.js');
+    });
+  });
+
+  describe('发布清单', () => {
+    it('应该生成带 appVersion 的清单', () => {
+      const manifest = createManifest('1.0.0', [{ file: 'a.js', map: 'a.js.map' }]);
+
+      expect(manifest).toMatchObject({ version: 1, appVersion: '1.0.0', files: [{ file: 'a.js', map: 'a.js.map' }] });
+      expect(typeof manifest.createdAt).toBe('string');
+    });
+
+    it('appVersion 包含路径分隔符时应该报错', () => {
+      expect(() => createManifest('../1.0.0', [])).toThrow('无效的 appVersion');
+    });
+  });
+
+  describe('复制到本地存储', () => {
+    it('应该按 appVersion 保存 source map 与清单', async () => {
+      const { entries } = await scanBuildDir(dist);
+      const store = path.join(tmp, 'store');
+      const versionDir = await copyToStore({ dir: dist, store, manifest: createManifest('1.0.0', entries) });
+
+      expect(versionDir).toBe(path.join(store, '1.0.0'));
+      await expect(fs.stat(path.join(versionDir, 'js/app.js.map'))).resolves.toBeTruthy();
+      await expect(fs.stat(path.join(versionDir, 'maps/vendor.map'))).resolves.toBeTruthy();
+      const manifest = JSON.parse(await fs.readFile(path.join(versionDir, 'manifest.json'), 'utf8'));
+      expect(manifest.files).toHaveLength(2);
+    });
+  });
+
+  describe('上传', () => {
+    it('应该逐个上传 source map 并最后上传清单', async () => {
+      const { entries } = await scanBuildDir(dist);
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+
+      const result = await uploadSourceMaps({
+        dir: dist,
+        url: 'https://api.test.com/sourcemaps',
+        manifest: createManifest('1.0.0', entries),
+        headers: { Authorization: 'Bearer token' },
+        fetch: fetchMock
+      });
+
+      expect(result.uploaded).toEqual(['js/app.js.map', 'maps/vendor.map', 'manifest.json']);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.test.com/sourcemaps');
+      expect(init.headers).toEqual({ Authorization: 'Bearer token' });
+      expect(init.body.get('appVersion')).toBe('1.0.0');
+      expect(init.body.get('path')).toBe('js/app.js.map');
+      expect(fetchMock.mock.calls[2][1].body.get('path')).toBe('manifest.json');
+    });
+
+    it('有文件上传失败时不应该上传清单', async () => {
+      const { entries } = await scanBuildDir(dist);
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce({ ok: false, status: 500 })
+        .mockResolvedValue({ ok: true, status: 200 });
+
+      await expect(uploadSourceMaps({
+        dir: dist,
+        url: 'https://api.test.com/sourcemaps',
+        manifest: createManifest('1.0.0', entries),
+        concurrency: 1,
+        fetch: fetchMock
+      })).rejects.toThrow('上传 js/app.js.map 失败: HTTP 500');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('删除 sourceMappingURL 注释', () => {
+    it('应该只删除 sourceMappingURL 注释', () => {
+      expect(stripSourceMappingURL('a;\n//# sourceMappingURL=a.js.map\n')).toBe('a;\n');
+      expect(stripSourceMappingURL('a;\n/*# sourceMappingURL=a.js.map */')).toBe('a;\n');
+      expect(stripSourceMappingURL('var s = "//# sourceMappingURL=x";\n')).toBe('var s = "//# sourceMappingURL=x";\n');
+    });
+  });
+
+  describe('命令行', () => {
+    const createIO = () => ({ log: vi.fn(), error: vi.fn() });
+
+    it('应该解析参数', () => {
+      expect(parseArgs(['dist', '--app-version=1.0.0', '--header', 'X-Token: abc', '--strip'])).toMatchObject({
+        dir: 'dist',
+        appVersion: '1.0.0',
+        headers: { 'X-Token': 'abc' },
+        manifest: 'sourcemap-manifest.json',
+        strip: true
+      });
+      expect(parseArgs(['dist'], { SENMU_APP_VERSION: '2.0.0' }).appVersion).toBe('2.0.0');
+    });
+
+    it('缺少 appVersion 时应该返回错误码', async () => {
+      const io = createIO();
+
+      expect(await runCli([dist], io, {})).toBe(1);
+      expect(io.error.mock.calls[0][0]).toContain('需要指定 --app-version');
+    });
+
+    it('应该生成清单、复制到本地存储并删除注释', async () => {
+      const io = createIO();
+      const store = path.join(tmp, 'store');
+      const manifestFile = path.join(tmp, 'manifest.json');
+
+      const code = await runCli([dist, '--app-version', '1.0.0', '--store', store, '--manifest', manifestFile, '--strip'], io, {});
+
+      expect(code).toBe(0);
+      expect(JSON.parse(await fs.readFile(manifestFile, 'utf8')).appVersion).toBe('1.0.0');
+      await expect(fs.stat(path.join(store, '1.0.0', 'manifest.json'))).resolves.toBeTruthy();
+      expect(await fs.readFile(path.join(dist, 'js/app.js'), 'utf8')).toBe('console.log(1);\n');
+      expect(io.log).toHaveBeenCalledWith('未找到 source map: js/legacy.js');
+    });
+  });
+});
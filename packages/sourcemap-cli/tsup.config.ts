@@ -0,0 +1,15 @@
+import { defineConfig } from 'tsup';
+
+/**
+ * sourcemap-cli 构建配置
+ * bin 为命令行入口，index 为编程接口
+ */
+export default defineConfig({
+  entry: ['src/index.ts', 'src/bin.ts'],
+  format: ['cjs', 'esm'],
+  platform: 'node',
+  dts: { compilerOptions: { composite: false } },
+  clean: true,
+  sourcemap: false,
+  minify: true
+});
@@ -0,0 +1,184 @@
+import { JSErrorMetric, MetricData, MetricType, StackFrame } from '@senmu/types';
+import { originalPositionFor, sourceContentFor } from '@jridgewell/trace-mapping';
+import { LoadedSourceMap, SourceMapStore } from './source-map-store';
+
+/**
+ * 符号化配置
+ */
+export interface SymbolicatorOptions {
+  // source map 根目录，下一级目录名为 appVersion
+  root: string;
+  // 出错行前后各带多少行源码，默认 5，0 表示不带
+  contextLines?: number;
+  // 最多缓存的 source map 数量，默认 50
+  maxCachedMaps?: number;
+}
+
+const DEFAULT_CONTEXT_LINES = 5;
+// 最多缓存的源文件数量
+const MAX_CACHED_SOURCES = 200;
+// 还原后仍属于第三方代码的源码路径
+const NOT_IN_APP_SOURCE = /(?:^|\/)node_modules\/|^webpack\/(?:bootstrap|runtime)/;
+
+/**
+ * 源码映射：使用本地 source map 将压缩代码的堆栈还原为源码位置
+ */
+export class Symbolicator {
+  private store: SourceMapStore;
+  private contextLines: number;
+  // 已读取的源码按行拆分后的缓存，key 为 map 路径 + 源文件
+  private sourceLines: Map<string, Promise<string[] | null>> = new Map();
+
+  constructor(options: SymbolicatorOptions) {
+    this.store = new SourceMapStore(options.root, { maxCached: options.maxCachedMaps });
+    this.contextLines = Math.max(0, options.contextLines ?? DEFAULT_CONTEXT_LINES);
+  }
+
+  /**
+   * 还原单条数据，非 JS 错误或缺少 appVersion 时原样返回
+   */
+  async symbolicate<T extends MetricData>(metric: T): Promise<T> {
+    if (metric.type !== MetricType.JS_ERROR || !metric.appVersion) {
+      return metric;
+    }
+
+    try {
+      return await this.symbolicateError(metric as JSErrorMetric) as T;
+    } catch (err) {
+      console.warn('[web-moniter] 堆栈还原失败', err);
+      return metric;
+    }
+  }
+
+  /**
+   * 批量还原，保持原有顺序
+   */
+  symbolicateBatch<T extends MetricData>(metrics: T[]): Promise<T[]> {
+    return Promise.all(metrics.map(metric => this.symbolicate(metric)));
+  }
+
+  /**
+   * 清空 source map 与源码缓存
+   */
+  clearCache() {
+    this.store.clear();
+    this.sourceLines.clear();
+  }
+
+  /**
+   * 还原错误的所有堆栈帧，并用栈顶帧更新错误位置
+   * @private
+   */
+  private async symbolicateError(metric: JSErrorMetric): Promise<JSErrorMetric> {
+    const frames = metric.frames && metric.frames.length > 0
+      ? metric.frames
+      : metric.filename && metric.lineno
+        ? [{ function: '<anonymous>', filename: metric.filename, lineno: metric.lineno, colno: metric.colno, inApp: true }]
+        : [];
+    if (frames.length === 0) {
+      return metric;
+    }
+
+    const appVersion = metric.appVersion!;
+    const resolved = await Promise.all(frames.map(frame => this.resolveFrame(appVersion, frame)));
+    if (resolved.every(item => !item)) {
+      return metric;
+    }
+
+    const result = frames.map((frame, i) => {
+      const item = resolved[i];
+      if (!item) {
+        return frame;
+      }
+      // 函数名取自调用方位置的映射名称（调用处的标识符即被调用函数名）
+      const callerName = resolved[i + 1]?.name;
+      return { ...item.frame, function: callerName || frame.function };
+    });
+
+    const top = result[0];
+    return {
+      ...metric,
+      frames: result,
+      filename: top.filename,
+      lineno: top.lineno,
+      colno: top.colno
+    };
+  }
+
+  /**
+   * 还原单个堆栈帧，找不到 source map 或映射位置时返回 null
+   * @private
+   */
+  private async resolveFrame(
+    appVersion: string,
+    frame: StackFrame
+  ): Promise<{ frame: StackFrame; name: string | null } | null> {
+    if (!frame.filename || !frame.lineno) {
+      return null;
+    }
+
+    const loaded = await this.store.getMap(appVersion, frame.filename);
+    if (!loaded) {
+      return null;
+    }
+
+    // 堆栈中的列号从 1 开始，source map 中从 0 开始
+    const position = originalPositionFor(loaded.map, {
+      line: frame.lineno,
+      column: Math.max(0, (frame.colno || 1) - 1)
+    });
+    if (position.source === null || position.line === null) {
+      return null;
+    }
+
+    const resolvedFrame: StackFrame = {
+      ...frame,
+      filename: position.source,
+      lineno: position.line,
+      colno: position.column + 1,
+      inApp: frame.inApp && !NOT_IN_APP_SOURCE.test(position.source)
+    };
+
+    if (this.contextLines > 0) {
+      const lines = await this.getSourceLines(appVersion, loaded, position.source);
+      if (lines && position.line <= lines.length) {
+        const index = position.line - 1;
+        resolvedFrame.preContext = lines.slice(Math.max(0, index - this.contextLines), index);
+        resolvedFrame.contextLine = lines[index];
+        resolvedFrame.postContext = lines.slice(index + 1, index + 1 + this.contextLines);
+      }
+    }
+
+    return { frame: resolvedFrame, name: position.name };
+  }
+
+  /**
+   * 获取源码行，优先使用 sourcesContent，缺失时从磁盘读取
+   * @private
+   */
+  private getSourceLines(appVersion: string, loaded: LoadedSourceMap, source: string): Promise<string[] | null> {
+    const key = `${loaded.path}\0${source}`;
+    let lines = this.sourceLines.get(key);
+    if (!lines) {
+      lines = (async () => {
+        const content = sourceContentFor(loaded.map, source) ?? await this.store.readSource(appVersion, loaded.path, source);
+        return content === null ? null : content.split(/\r\n|\r|\n/);
+      })();
+      this.sourceLines.set(key, lines);
+      if (this.sourceLines.size > MAX_CACHED_SOURCES) {
+        this.sourceLines.delete(this.sourceLines.keys().next().value as string);
+      }
+    }
+    return lines;
+  }
+}
+
+/**
+ * 创建源码映射实例
+ */
+export function createSymbolicator(options: SymbolicatorOptions): Symbolicator {
+  return new Symbolicator(options);
+}
+
+export { SourceMapStore, toRelativePath } from './source-map-store';
+export type { LoadedSourceMap, SourceMapStoreOptions } from './source-map-store';
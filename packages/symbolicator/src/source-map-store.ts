@@ -0,0 +1,257 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { TraceMap } from '@jridgewell/trace-mapping';
+import { SourceMapManifest } from '@senmu/types';
+
+/**
+ * 已加载的 source map
+ */
+export interface LoadedSourceMap {
+  // .map 文件的绝对路径
+  path: string;
+  map: TraceMap;
+}
+
+/**
+ * source map 存储配置
+ */
+export interface SourceMapStoreOptions {
+  // 最多缓存的 source map 数量，默认 50
+  maxCached?: number;
+}
+
+const DEFAULT_MAX_CACHED = 50;
+// @senmu/sourcemap-cli 写入版本目录的发布清单
+const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * 本地 source map 存储
+ * .map 文件存放在 <root>/<appVersion>/ 目录下，按版本隔离，完全离线读取
+ */
+export class SourceMapStore {
+  private root: string;
+  private maxCached: number;
+  // 以 .map 文件路径为 key，缓存加载中的 Promise，同一文件的并发请求只读取解析一次；结果为 null 表示文件无法解析
+  private cache: Map<string, Promise<LoadedSourceMap | null>> = new Map();
+  // 每个版本目录下按文件名建立的 .map 索引
+  private indexes: Map<string, Promise<Map<string, string>>> = new Map();
+  // 每个版本目录的发布清单
+  private manifests: Map<string, Promise<SourceMapManifest | null>> = new Map();
+
+  constructor(root: string, options: SourceMapStoreOptions = {}) {
+    this.root = path.resolve(root);
+    this.maxCached = Math.max(1, options.maxCached ?? DEFAULT_MAX_CACHED);
+  }
+
+  /**
+   * 查找压缩文件对应的 source map
+   * 依次尝试：发布清单、同路径 .map、版本目录下同名 .map、版本目录内的文件名索引
+   */
+  async getMap(appVersion: string, filename: string): Promise<LoadedSourceMap | null> {
+    const versionDir = this.getVersionDir(appVersion);
+    const relativePath = toRelativePath(filename);
+    if (!versionDir || !relativePath) {
+      return null;
+    }
+
+    const manifestMap = await this.findInManifest(versionDir, relativePath);
+    if (manifestMap) {
+      return this.load(manifestMap);
+    }
+
+    const candidates = [
+      path.join(versionDir, `${relativePath}.map`),
+      path.join(versionDir, `${path.posix.basename(relativePath)}.map`)
+    ];
+
+    for (const candidate of candidates) {
+      if (isInside(versionDir, candidate) && await isFile(candidate)) {
+        return this.load(candidate);
+      }
+    }
+
+    const index = await this.getIndex(versionDir);
+    const indexed = index.get(path.posix.basename(relativePath));
+    return indexed ? this.load(indexed) : null;
+  }
+
+  /**
+   * 读取原始源码文件，用于 source map 中没有 sourcesContent 的情况
+   * 只允许读取版本目录内的文件
+   */
+  async readSource(appVersion: string, mapPath: string, source: string): Promise<string | null> {
+    const versionDir = this.getVersionDir(appVersion);
+    if (!versionDir || /^[a-z][\w+.-]*:/i.test(source)) {
+      return null;
+    }
+
+    const sourcePath = path.resolve(path.dirname(mapPath), source);
+    if (!isInside(versionDir, sourcePath)) {
+      return null;
+    }
+
+    try {
+      return await fs.readFile(sourcePath, 'utf8');
+    } catch (err) {
+      return null;
+    }
+  }
+
+  /**
+   * 清空缓存，版本目录内容变化后调用
+   */
+  clear() {
+    this.cache.clear();
+    this.indexes.clear();
+    this.manifests.clear();
+  }
+
+  /**
+   * 获取版本目录，版本号包含路径分隔符等非法字符时返回 null
+   * @private
+   */
+  private getVersionDir(appVersion: string): string | null {
+    if (!appVersion || appVersion === '.' || appVersion === '..' || /[\\/\0]/.test(appVersion)) {
+      return null;
+    }
+    return path.join(this.root, appVersion);
+  }
+
+  /**
+   * 加载并缓存 source map，超出缓存上限时淘汰最早加载的
+   * @private
+   */
+  private load(mapPath: string): Promise<LoadedSourceMap | null> {
+    const cached = this.cache.get(mapPath);
+    if (cached) {
+      // 重新插入，保持最近使用的在末尾
+      this.cache.delete(mapPath);
+      this.cache.set(mapPath, cached);
+      return cached;
+    }
+
+    const loading: Promise<LoadedSourceMap | null> = fs.readFile(mapPath, 'utf8').then(raw => {
+      try {
+        return { path: mapPath, map: new TraceMap(raw) };
+      } catch (err) {
+        console.warn(`[web-moniter] 解析 source map 失败: ${mapPath}`, err);
+        return null;
+      }
+    }, err => {
+      // 读取失败可能是暂时的，不缓存结果，下次重新读取
+      if (this.cache.get(mapPath) === loading) {
+        this.cache.delete(mapPath);
+      }
+      console.warn(`[web-moniter] 读取 source map 失败: ${mapPath}`, err);
+      return null;
+    });
+
+    this.cache.set(mapPath, loading);
+    if (this.cache.size > this.maxCached) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    return loading;
+  }
+
+  /**
+   * 在发布清单中查找构建产物对应的 .map 文件
+   * 堆栈中的路径可能带有部署前缀，按路径后缀匹配，取最长的匹配项
+   * @private
+   */
+  private async findInManifest(versionDir: string, relativePath: string): Promise<string | null> {
+    let manifest = this.manifests.get(versionDir);
+    if (!manifest) {
+      manifest = readManifest(path.join(versionDir, MANIFEST_FILE));
+      this.manifests.set(versionDir, manifest);
+    }
+
+    let matched: { file: string; map: string } | null = null;
+    for (const entry of (await manifest)?.files || []) {
+      const isMatch = relativePath === entry.file || relativePath.endsWith(`/${entry.file}`);
+      if (isMatch && (!matched || entry.file.length > matched.file.length)) {
+        matched = entry;
+      }
+    }
+
+    const mapPath = matched ? path.join(versionDir, matched.map) : null;
+    return mapPath && isInside(versionDir, mapPath) ? mapPath : null;
+  }
+
+  /**
+   * 获取版本目录下 .map 文件的索引（文件名去掉 .map 后缀 -> 路径）
+   * @private
+   */
+  private getIndex(versionDir: string): Promise<Map<string, string>> {
+    let index = this.indexes.get(versionDir);
+    if (!index) {
+      index = buildIndex(versionDir);
+      this.indexes.set(versionDir, index);
+    }
+    return index;
+  }
+}
+
+/**
+ * 读取发布清单，不存在或格式错误时返回 null
+ */
+async function readManifest(file: string): Promise<SourceMapManifest | null> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(file, 'utf8'));
+    return manifest && Array.isArray(manifest.files) ? manifest : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+/**
+ * 递归扫描目录，建立 .map 文件名索引
+ */
+async function buildIndex(dir: string): Promise<Map<string, string>> {
+  const index = new Map<string, string>();
+  const walk = async (current: string) => {
+    let entries;
+    try {
+      entries = await fs.readdir(current, { withFileTypes: true });
+    } catch (err) {
+      return;
+    }
+    for (const entry of entries) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.name.endsWith('.map') && !index.has(entry.name.slice(0, -4))) {
+        index.set(entry.name.slice(0, -4), fullPath);
+      }
+    }
+  };
+  await walk(dir);
+  return index;
+}
+
+/**
+ * 将堆栈中的文件地址转换为相对路径，去掉协议、域名、查询参数和 hash
+ */
+export function toRelativePath(filename: string): string {
+  let pathname = filename.replace(/[?#].*$/, '');
+  const match = /^[a-z][\w+.-]*:\/\/[^/]*(\/.*)?$/i.exec(pathname);
+  if (match) {
+    pathname = match[1] || '';
+  }
+  return path.posix.normalize(pathname).replace(/^(\.\.\/|\/)+/, '').replace(/^\.\/?$/, '');
+}
+
+/**
+ * target 是否位于 dir 目录内
+ */
+function isInside(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch (err) {
+    return false;
+  }
+}
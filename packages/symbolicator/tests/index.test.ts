@@ -0,0 +1,244 @@
+/**
+ * @vitest-environment node
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { encode } from '@jridgewell/sourcemap-codec';
+import { JSErrorMetric, MetricData, MetricType } from '@senmu/types';
+import { createSymbolicator, toRelativePath } from '../src/index';
+
+const SOURCE = [
+  'import { helper } from "./helper";',
+  '',
+  'export function boot() {',
+  '  init();',
+  '}',
+  '',
+  'function init() {',
+  '  throw new Error("boom");',
+  '}'
+].join('\n');
+
+// 压缩后: function a(){throw new Error("boom")}function b(){a()}
+const mappings = encode([
+  [
+    // function a -> init (第 7 行)
+    [0, 0, 6, 0],
+    [9, 0, 6, 9, 0],
+    // throw -> 第 8 行
+    [13, 0, 7, 2],
+    // function b -> boot (第 3 行)
+    [35, 0, 2, 0],
+    [44, 0, 2, 16, 1],
+    // a() 调用 -> 第 4 行 init()
+    [48, 0, 3, 2, 0]
+  ],
+  [
+    // 第二行来自第三方依赖
+    [0, 1, 0, 0]
+  ]
+]);
+
+const createMap = (withContent = true) => JSON.stringify({
+  version: 3,
+  file: 'app.min.js',
+  sources: ['webpack://app/src/index.ts', 'webpack://app/./node_modules/lib/index.js'],
+  sourcesContent: withContent ? [SOURCE, 'module.exports = 1;'] : undefined,
+  names: ['init', 'boot'],
+  mappings
+});
+
+const createError = (overrides: Partial<JSErrorMetric> = {}): JSErrorMetric => ({
+  type: MetricType.JS_ERROR,
+  message: 'boom',
+  name: 'Error',
+  errorType: 'js',
+  timestamp: Date.now(),
+  project: 'test-project',
+  pageUrl: 'https://test.com',
+  appVersion: '1.0.0',
+  frames: [
+    { function: 'a', filename: 'https://cdn.test.com/static/js/app.min.js?v=1', lineno: 1, colno: 14, inApp: true },
+    { function: 'b', filename: 'https://cdn.test.com/static/js/app.min.js?v=1', lineno: 1, colno: 49, inApp: true }
+  ],
+  ...overrides
+});
+
+describe('Symbolicator', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'symbolicator-'));
+    await fs.mkdir(path.join(root, '1.0.0', 'static', 'js'), { recursive: true });
+    await fs.writeFile(path.join(root, '1.0.0', 'static', 'js', 'app.min.js.map'), createMap());
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('应该将堆栈帧还原为源码位置并附带上下文', async () => {
+    const symbolicator = createSymbolicator({ root, contextLines: 2 });
+    const result = await symbolicator.symbolicate(createError());
+
+    expect(result.frames![0]).toMatchObject({
+      function: 'init',
+      filename: 'webpack://app/src/index.ts',
+      lineno: 8,
+      colno: 3,
+      inApp: true,
+      preContext: ['', 'function init() {'],
+      contextLine: '  throw new Error("boom");',
+      postContext: ['}']
+    });
+    expect(result.frames![1]).toMatchObject({
+      function: 'b',
+      filename: 'webpack://app/src/index.ts',
+      lineno: 4,
+      colno: 3
+    });
+    // 错误位置使用栈顶帧
+    expect(result.filename).toBe('webpack://app/src/index.ts');
+    expect(result.lineno).toBe(8);
+    expect(result.colno).toBe(3);
+  });
+
+  it('没有 frames 时应该使用错误位置还原', async () => {
+    const symbolicator = createSymbolicator({ root, contextLines: 0 });
+    const result = await symbolicator.symbolicate(createError({
+      frames: undefined,
+      filename: 'https://cdn.test.com/static/js/app.min.js',
+      lineno: 1,
+      colno: 14
+    }));
+
+    expect(result.lineno).toBe(8);
+    expect(result.frames).toHaveLength(1);
+    expect(result.frames![0].contextLine).toBeUndefined();
+  });
+
+  it('还原到 node_modules 的帧应该标记为非业务代码', async () => {
+    const symbolicator = createSymbolicator({ root });
+    const result = await symbolicator.symbolicate(createError({
+      frames: [{ function: 'c', filename: 'https://cdn.test.com/static/js/app.min.js', lineno: 2, colno: 1, inApp: true }]
+    }));
+
+    expect(result.frames![0].filename).toBe('webpack://app/node_modules/lib/index.js');
+    expect(result.frames![0].inApp).toBe(false);
+  });
+
+  it('应该按文件名在版本目录内查找 source map', async () => {
+    await fs.mkdir(path.join(root, '2.0.0', 'maps'), { recursive: true });
+    await fs.writeFile(path.join(root, '2.0.0', 'maps', 'app.min.js.map'), createMap());
+
+    const symbolicator = createSymbolicator({ root });
+    const result = await symbolicator.symbolicate(createError({ appVersion: '2.0.0' }));
+
+    expect(result.frames![0].lineno).toBe(8);
+  });
+
+  it('应该优先使用发布清单中记录的 source map', async () => {
+    await fs.mkdir(path.join(root, '4.0.0', 'maps'), { recursive: true });
+    await fs.writeFile(path.join(root, '4.0.0', 'maps', 'bundle.map'), createMap());
+    await fs.writeFile(path.join(root, '4.0.0', 'manifest.json'), JSON.stringify({
+      version: 1,
+      appVersion: '4.0.0',
+      createdAt: new Date().toISOString(),
+      files: [{ file: 'js/app.min.js', map: 'maps/bundle.map' }]
+    }));
+
+    const symbolicator = createSymbolicator({ root });
+    const result = await symbolicator.symbolicate(createError({ appVersion: '4.0.0' }));
+
+    expect(result.frames![0].lineno).toBe(8);
+  });
+
+  it('缺少 sourcesContent 时应该从磁盘读取源码', async () => {
+    const versionDir = path.join(root, '3.0.0');
+    await fs.mkdir(path.join(versionDir, 'src'), { recursive: true });
+    await fs.writeFile(path.join(versionDir, 'src', 'index.ts'), SOURCE);
+    await fs.writeFile(path.join(versionDir, 'app.min.js.map'), JSON.stringify({
+      ...JSON.parse(createMap(false)),
+      sources: ['src/index.ts', 'node_modules/lib/index.js']
+    }));
+
+    const symbolicator = createSymbolicator({ root, contextLines: 1 });
+    const result = await symbolicator.symbolicate(createError({ appVersion: '3.0.0' }));
+
+    expect(result.frames![0].contextLine).toBe('  throw new Error("boom");');
+    expect(result.frames![0].preContext).toEqual(['function init() {']);
+  });
+
+  it('找不到 source map 时应该原样返回', async () => {
+    const symbolicator = createSymbolicator({ root });
+    const metric = createError({ appVersion: '9.9.9' });
+
+    expect(await symbolicator.symbolicate(metric)).toBe(metric);
+  });
+
+  it('版本号包含路径穿越时不应该读取目录外的文件', async () => {
+    const symbolicator = createSymbolicator({ root: path.join(root, '1.0.0', 'static') });
+    const metric = createError({ appVersion: '../1.0.0' });
+
+    expect(await symbolicator.symbolicate(metric)).toBe(metric);
+  });
+
+  it('source map 解析失败时应该保留原始帧', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await fs.writeFile(path.join(root, '1.0.0', 'static', 'js', 'app.min.js.map'), '{invalid');
+
+    const symbolicator = createSymbolicator({ root });
+    const metric = createError();
+
+    expect(await symbolicator.symbolicate(metric)).toBe(metric);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('同一个 source map 被多个帧并发使用时只应该读取一次', async () => {
+    const readFile = vi.spyOn(fs, 'readFile');
+    const symbolicator = createSymbolicator({ root });
+
+    await symbolicator.symbolicate(createError());
+
+    const mapReads = readFile.mock.calls.filter(call => String(call[0]).endsWith('app.min.js.map'));
+    expect(mapReads).toHaveLength(1);
+  });
+
+  it('读取失败后应该重新读取 source map', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const originalReadFile = fs.readFile;
+    let failed = false;
+    vi.spyOn(fs, 'readFile').mockImplementation(((file: string, ...args: any[]) => {
+      if (!failed && String(file).endsWith('.map')) {
+        failed = true;
+        return Promise.reject(new Error('EBUSY'));
+      }
+      return (originalReadFile as any)(file, ...args);
+    }) as any);
+    const symbolicator = createSymbolicator({ root, contextLines: 0 });
+    const metric = createError({ frames: [createError().frames![0]] });
+
+    expect(await symbolicator.symbolicate(metric)).toBe(metric);
+    expect((await symbolicator.symbolicate(metric)).frames![0].lineno).toBe(8);
+  });
+
+  it('批量还原时应该跳过非错误数据并保持顺序', async () => {
+    const symbolicator = createSymbolicator({ root });
+    const pv = { type: MetricType.PV, timestamp: 1, project: 'test-project', pageUrl: 'https://test.com' } as MetricData;
+    const result = await symbolicator.symbolicateBatch([pv, createError()]);
+
+    expect(result[0]).toBe(pv);
+    expect((result[1] as JSErrorMetric).frames![0].function).toBe('init');
+  });
+});
+
+describe('toRelativePath', () => {
+  it('应该去掉协议、域名与查询参数', () => {
+    expect(toRelativePath('https://cdn.test.com/static/app.js?v=1#x')).toBe('static/app.js');
+    expect(toRelativePath('/static/../app.js')).toBe('app.js');
+    expect(toRelativePath('../../etc/passwd')).toBe('etc/passwd');
+  });
+});
@@ -0,0 +1,16 @@
+import { defineConfig } from 'tsup';
+
+/**
+ * symbolicator 构建配置
+ * 运行在 Node.js 环境，支持 CommonJS 和 ESM 格式输出
+ */
+export default defineConfig({
+  entry: ['src/index.ts'],
+  format: ['cjs', 'esm'],
+  platform: 'node',
+  dts: { compilerOptions: { composite: false } },
+  clean: true,
+  sourcemap: false,
+  minify: true,
+  external: ['@jridgewell/trace-mapping']
+});
@@ -15,7 +15,37 @@ export interface IWebMoniter {
   /**
    * 添加错误信息
    */
-  addError(err: Error, opts?: { category?: string; level?: string }): void;
+  addError(err: Error, opts?: AddErrorOptions): void;
+  
+  /**
+   * 添加用户行为记录，随后发生的错误会携带最近的记录
+   */
+  addBreadcrumb(breadcrumb: BreadcrumbInput): void;
+  
+  /**
+   * 设置当前用户，传 null 清除（如退出登录）
+   */
+  setUser(user: UserInfo | null): IWebMoniter;
+  
+  /**
+   * 设置单个全局标签，值为 undefined 时移除
+   */
+  setTag(key: string, value: any): IWebMoniter;
+  
+  /**
+   * 批量设置全局标签
+   */
+  setTags(tags: Record<string, any>): IWebMoniter;
+  
+  /**
+   * 设置命名上下文，传 null 移除
+   */
+  setContext(name: string, context: Record<string, any> | null): IWebMoniter;
+  
+  /**
+   * 清除用户、标签与上下文
+   */
+  clearScope(): IWebMoniter;
   
   /**
    * 设置配置
@@ -28,9 +58,14 @@ export interface IWebMoniter {
   send(metric: MetricData | MetricData[], reportNow?: boolean): void;
   
   /**
-   * 立即上报所有缓存数据
+   * 记录一次用户活跃并延长当前会话，未初始化时返回 undefined
    */
-  flush(): void;
+  touchSession(): SessionInfo | undefined;
+  
+  /**
+   * 立即上报所有缓存数据，送达后 resolve，失败时 reject
+   */
+  flush(): Promise<void>;
   
   /**
    * 销毁SDK实例
@@ -66,7 +101,52 @@ export interface ITracker {
   /**
    * 添加错误
    */
-  addError(err: Error, opts?: { category?: string; level?: string }): void;
+  addError(err: Error, opts?: AddErrorOptions): void;
+  
+  /**
+   * 添加用户行为记录
+   */
+  addBreadcrumb(breadcrumb: BreadcrumbInput): void;
+  
+  /**
+   * 获取当前缓存的用户行为记录（按时间从旧到新）
+   */
+  getBreadcrumbs(): Breadcrumb[];
+  
+  /**
+   * 设置当前用户，传 null 清除
+   */
+  setUser(user: UserInfo | null): ITracker;
+  
+  /**
+   * 设置单个全局标签，值为 undefined 时移除
+   */
+  setTag(key: string, value: any): ITracker;
+  
+  /**
+   * 批量设置全局标签
+   */
+  setTags(tags: Record<string, any>): ITracker;
+  
+  /**
+   * 设置命名上下文，传 null 移除
+   */
+  setContext(name: string, context: Record<string, any> | null): ITracker;
+  
+  /**
+   * 清除用户、标签与上下文
+   */
+  clearScope(): ITracker;
+  
+  /**
+   * 获取当前会话信息
+   */
+  getSession(): SessionInfo;
+  
+  /**
+   * 记录一次用户活跃，延长会话；SDK 自身产生的数据不应调用
+   */
+  touchSession(): SessionInfo;
   
   /**
    * 发送指标数据
@@ -74,9 +154,14 @@ export interface ITracker {
   send(metric: MetricData | MetricData[], reportNow?: boolean): void;
   
   /**
-   * 立即上报所有缓存的指标数据
+   * 注册数据处理器，返回用于移除该处理器的函数
    */
-  flush(): void;
+  addProcessor(processor: MetricProcessor, options?: ProcessorOptions): () => void;
+  
+  /**
+   * 立即上报所有缓存的指标数据，送达后 resolve，失败时 reject
+   */
+  flush(): Promise<void>;
   
   /**
    * 销毁追踪器
@@ -94,20 +179,268 @@ export interface MoniterConfig {
   appVersion?: string;
   // 上报URL
   reportUrl?: string;
-  // 采样率 0-1
+  // 按指标类型路由到不同的上报地址，'*' 为兜底路由，未匹配时使用 reportUrl
+  routes?: Partial<Record<MetricType | '*', ReportRoute>>;
+  // 采样率 0-1，未被 sampling 中的规则与类型采样率覆盖时使用
   sampleRate?: number;
+  // 按类型与规则采样
+  sampling?: SamplingOptions;
   // 是否启用调试模式
   debug?: boolean;
-  // 自定义设备信息
-  deviceInfo?: Record<string, any>;
-  // 最大缓存条数
+  // 自定义设备信息，覆盖自动检测的值
+  deviceInfo?: Partial<DeviceInfo> & Record<string, any>;
+  // 最大缓存条数（开启持久化时同时作为存储配额）
   maxCache?: number;
+  // 是否持久化未上报的数据（优先 IndexedDB，降级为 localStorage）
+  persistCache?: boolean;
+  // 持久化存储的键名，默认 `web-moniter:${project}`
+  storageKey?: string;
   // 是否立即上报
   reportImmediately?: boolean;
   // HTTP请求头
   headers?: Record<string, string>;
+  // 同时进行中的上报请求数
+  sendConcurrency?: number;
+  // 上报通道及降级顺序，可以是内置通道名称（fetch/beacon/image）或自定义通道
+  transports?: Array<string | Transport>;
+  // 上报数据压缩格式（依赖 CompressionStream，不支持时自动回退为不压缩）
+  compression?: CompressionFormat | false;
+  // 各上报通道单次请求的最大字节数（按未压缩 JSON 计算），超出时拆分为多个请求
+  payloadLimits?: Record<string, number>;
+  // 上报失败重试策略，传 false 关闭重试与熔断
+  retry?: RetryOptions | false;
+  // 数据处理器，按优先级从高到低依次执行
+  processors?: Array<MetricProcessor | ProcessorRegistration>;
+  // 上报前的最后一个处理器，在所有处理器之后执行，返回 null 时丢弃该数据
+  beforeSend?: MetricProcessor;
+  // 保留的用户行为记录条数，错误发生时携带这些记录，设为 0 关闭，默认 20
+  maxBreadcrumbs?: number;
+  // 记录用户行为前的过滤函数，返回 null 时丢弃，返回 undefined 时保留原记录
+  beforeBreadcrumb?: (breadcrumb: Breadcrumb) => Breadcrumb | null | undefined | void;
+  // 是否将用户、标签与上下文持久化到 localStorage，刷新页面后自动恢复
+  persistScope?: boolean;
+  // 会话配置
+  session?: SessionOptions;
+  // 限流与去重，传 false 关闭
+  rateLimit?: RateLimitOptions | false;
+}
+
+/**
+ * 限流与去重配置
+ */
+export interface RateLimitOptions {
+  // 各类型的令牌桶，'*' 用于未单独配置的类型，默认容量 100、每秒补充 10 个
+  types?: Partial<Record<MetricType | '*', TokenBucketOptions>>;
+  // 相同指纹（错误、接口、资源）的令牌桶，默认容量 10、每秒补充 1 个
+  fingerprint?: TokenBucketOptions;
+  // 去重窗口(ms)，窗口内相同指纹的数据只上报首条，其余合并为一条带 count 的数据，0 表示不去重，默认 1000
+  dedupeWindow?: number;
 }
 
+/**
+ * 令牌桶配置
+ */
+export interface TokenBucketOptions {
+  // 桶容量，即允许的突发数量
+  capacity: number;
+  // 每秒补充的令牌数
+  refillRate: number;
+}
+
+/**
+ * 采样配置
+ */
+export interface SamplingOptions {
+  // 各类型的采样率，例如 { jsError: 1, performance: 0.1 }
+  rates?: Partial<Record<MetricType, number>>;
+  // 是否按会话采样：同一会话内的数据要么全部保留要么全部丢弃
+  sticky?: boolean;
+  // 采样规则，按顺序匹配，第一个命中的规则生效，优先级高于 rates
+  rules?: SamplingRule[];
+}
+
+/**
+ * 采样规则，所有设置的条件同时满足时命中
+ */
+export interface SamplingRule {
+  // 指标类型
+  type?: MetricType | MetricType[];
+  // 匹配页面地址或数据自身的 url（接口、资源地址），字符串按包含匹配
+  url?: string | RegExp;
+  // 标签全部相等时匹配
+  tags?: Record<string, any>;
+  // 自定义判断
+  predicate?: (metric: MetricData) => boolean;
+  // 命中后的采样率 0-1
+  rate: number;
+}
+
+/**
+ * 会话配置
+ */
+export interface SessionOptions {
+  // 无操作多久后开始新会话(ms)，默认 30 分钟
+  timeout?: number;
+  // 会话存储位置，sessionStorage 仅在当前标签页内延续，localStorage 可跨标签页，默认 sessionStorage
+  storage?: 'sessionStorage' | 'localStorage' | 'memory';
+  // 是否上报会话开始与结束的自定义指标（name 为 session_start / session_end），页面隐藏时上报 session_update
+  report?: boolean;
+  // 新会话开始时的回调
+  onSessionStart?: (session: SessionInfo) => void;
+  // 会话结束（超时或跨天）时的回调，页面加载时发现上次的会话已过期同样会触发
+  onSessionEnd?: (session: SessionInfo) => void;
+}
+
+/**
+ * 会话信息
+ */
+export interface SessionInfo {
+  // 会话ID
+  id: string;
+  // 开始时间
+  startTime: number;
+  // 最后活跃时间
+  lastActivity: number;
+  // 会话内访问的页面数
+  pageCount: number;
+  // 会话内发生的错误数
+  errorCount: number;
+}
+
+/**
+ * 设备信息
+ */
+export interface DeviceInfo {
+  // 操作系统
+  os?: string;
+  // 操作系统版本
+  osVersion?: string;
+  // 浏览器
+  browser?: string;
+  // 浏览器版本
+  browserVersion?: string;
+  // 设备类型 (mobile/tablet/desktop)
+  device?: string;
+  // 设备型号
+  deviceModel?: string;
+  // 屏幕宽度
+  screenWidth?: number;
+  // 屏幕高度
+  screenHeight?: number;
+  // 设备像素比
+  dpr?: number;
+  // 浏览器语言
+  language?: string;
+  // 时区，如 Asia/Shanghai
+  timezone?: string;
+}
+
+/**
+ * 手动上报错误的选项
+ */
+export interface AddErrorOptions {
+  // 错误分类，如 ajax、业务模块名等
+  category?: string;
+  // 错误级别 (fatal/error/warning/info)，默认 error
+  level?: string;
+  // 只附加到该错误的标签
+  tags?: Record<string, any>;
+  // 只附加到该错误的命名上下文，如 React 组件栈
+  contexts?: Record<string, Record<string, any>>;
+}
+
+/**
+ * 用户信息
+ */
+export interface UserInfo {
+  // 用户ID，同时写入数据的 uid 字段
+  id?: string;
+  // 用户名
+  username?: string;
+  // 邮箱
+  email?: string;
+  // 其他自定义字段
+  [key: string]: any;
+}
+
+/**
+ * 数据处理器：可以修改并返回数据、返回 null 丢弃数据，支持异步
+ * 返回 undefined 时视为保留原数据（包括原地修改后的数据）
+ */
+export type MetricProcessor = (
+  metric: MetricData
+) => MetricData | null | undefined | void | Promise<MetricData | null | undefined | void>;
+
+/**
+ * 数据处理器选项
+ */
+export interface ProcessorOptions {
+  // 处理器名称，用于调试日志
+  name?: string;
+  // 优先级，数值越大越先执行，默认 0
+  priority?: number;
+}
+
+/**
+ * 带选项的数据处理器
+ */
+export interface ProcessorRegistration extends ProcessorOptions {
+  process: MetricProcessor;
+}
+
+/**
+ * 上报路由配置
+ */
+export interface ReportRoute {
+  // 上报地址
+  url: string;
+  // 额外的请求头，与全局 headers 合并
+  headers?: Record<string, string>;
+  // 该路由使用的上报通道，未设置时使用全局 transports
+  transports?: Array<string | Transport>;
+}
+
+/**
+ * 上报重试配置
+ */
+export interface RetryOptions {
+  // 最大尝试次数（包含首次发送）
+  maxAttempts?: number;
+  // 初始退避时间(ms)
+  baseDelay?: number;
+  // 最大退避时间(ms)，Retry-After 超过该值时不再重试而是直接熔断
+  maxDelay?: number;
+  // 是否为退避时间添加随机抖动
+  jitter?: boolean;
+  // 连续失败多少次后触发熔断
+  circuitThreshold?: number;
+  // 熔断持续时间(ms)
+  circuitCooldown?: number;
+}
+
+/**
+ * 用户行为记录（面包屑）
+ */
+export interface Breadcrumb {
+  // 记录类型 (http/console/navigation/click/custom/...)
+  type: string;
+  // 分类，如 xhr、fetch、ui
+  category?: string;
+  // 描述信息
+  message?: string;
+  // 级别 (error/warning/info/debug)
+  level?: string;
+  // 附加数据
+  data?: Record<string, any>;
+  // 时间戳
+  timestamp: number;
+}
+
+/**
+ * 添加用户行为记录时的参数，时间戳可省略
+ */
+export type BreadcrumbInput = Omit<Breadcrumb, 'timestamp'> & { timestamp?: number };
+
 /**
  * 监控数据类型
  */
@@ -144,19 +477,16 @@ export interface BaseMetric {
   pageUrl: string;
   // 用户标识
   uid?: string;
+  // 用户信息
+  user?: UserInfo;
   // 设备信息
-  device?: {
-    os?: string;
-    osVersion?: string;
-    browser?: string;
-    browserVersion?: string;
-    device?: string;
-    deviceModel?: string;
-    screenWidth?: number;
-    screenHeight?: number;
-  };
+  device?: DeviceInfo;
   // 自定义标签
   tags?: Record<string, any>;
+  // 命名上下文，如 app、order 等业务信息
+  contexts?: Record<string, Record<string, any>>;
+  // 去重合并的重复次数，仅合并后的数据存在
+  count?: number;
 }
 
 /**
@@ -170,14 +500,86 @@ export interface JSErrorMetric extends BaseMetric {
   name: string;
   // 错误堆栈
   stack?: string;
-  // 错误类型 (js/promise/resource/...)
+  // 错误类型 (js/promise/resource/manual/...)
   errorType: string;
+  // 错误级别 (fatal/error/warning/info)
+  level?: string;
+  // 错误分类，如 ajax、业务模块名等
+  category?: string;
   // 发生错误的文件
   filename?: string;
   // 发生错误的行号
   lineno?: number;
   // 发生错误的列号
   colno?: number;
+  // 错误发生前的用户行为记录
+  breadcrumbs?: Breadcrumb[];
+  // 错误指纹，相同指纹的错误归为同一类
+  fingerprint?: string;
+  // 解析后的堆栈，从栈顶开始
+  frames?: StackFrame[];
+  // 跨域 "Script error." 发生时页面中未设置 crossorigin 属性的跨域脚本
+  crossOriginScripts?: string[];
+  // 错误码，如 DOMException.code
+  code?: string | number;
+  // 错误的 cause 链与 AggregateError 子错误
+  causes?: ErrorCause[];
+  // 自动包装捕获时的上下文
+  mechanism?: ErrorMechanism;
+}
+
+/**
+ * 自动包装回调捕获错误时的上下文
+ */
+export interface ErrorMechanism {
+  // 捕获方式，如 setTimeout、setInterval、requestAnimationFrame、addEventListener、Promise.then
+  type: string;
+  // 出错的回调函数名，匿名函数为 <anonymous>
+  handler: string;
+  // 附加信息，如事件类型、事件目标、定时器延时
+  data?: Record<string, any>;
+}
+
+/**
+ * 引发错误的原因或 AggregateError 的子错误
+ */
+export interface ErrorCause {
+  // cause 表示来自 error.cause，aggregate 表示来自 AggregateError.errors
+  relation: 'cause' | 'aggregate';
+  // 嵌套层数，直接原因为 1
+  depth: number;
+  // 错误名称，非 Error 值为其类型名称
+  name: string;
+  // 错误信息，非 Error 值为序列化后的内容
+  message: string;
+  // 错误码
+  code?: string | number;
+  // 错误堆栈
+  stack?: string;
+  // 解析后的堆栈
+  frames?: StackFrame[];
+}
+
+/**
+ * 堆栈帧
+ */
+export interface StackFrame {
+  // 函数名，匿名函数为 <anonymous>
+  function: string;
+  // 文件地址
+  filename?: string;
+  // 行号
+  lineno?: number;
+  // 列号
+  colno?: number;
+  // 是否为业务代码
+  inApp: boolean;
+  // 还原后出错行之前的源码行
+  preContext?: string[];
+  // 还原后出错行的源码
+  contextLine?: string;
+  // 还原后出错行之后的源码行
+  postContext?: string[];
 }
 
 /**
@@ -273,6 +675,10 @@ export interface PVMetric extends BaseMetric {
   referrer?: string;
   // 停留时间(ms)
   stayTime?: number;
+  // 路由名称，由框架路由集成上报
+  routeName?: string;
+  // 路由参数
+  routeParams?: Record<string, any>;
 }
 
 /**
@@ -311,14 +717,103 @@ export interface Plugin {
   destroy: () => void;
 }
 
+/**
+ * 上报失败时 reject 的错误，部分数据已送达时只携带未送达的部分
+ */
+export interface ReportFailure extends Error {
+  // 未送达的数据，调用方只需重新缓存这部分；未设置时视为全部未送达
+  undelivered?: MetricData[];
+}
+
 /**
  * 上报器接口
  */
 export interface Reporter {
-  // 发送数据
+  // 发送数据，失败时 reject 的错误可携带未送达的数据（见 ReportFailure）
   send: (data: MetricData | MetricData[], immediately?: boolean) => Promise<void>;
   // 设置配置
   setConfig: (config: Partial<MoniterConfig>) => void;
   // 销毁上报器
   destroy: () => void;
-}
\ No newline at end of file
+}
+
+/**
+ * 上报数据压缩格式
+ */
+export type CompressionFormat = 'gzip' | 'deflate';
+
+/**
+ * 上报通道的发送载荷
+ */
+export interface TransportPayload {
+  // 上报地址
+  url: string;
+  // 序列化后的数据（未压缩）
+  body: string;
+  // 压缩后的数据，开启压缩且压缩成功时存在
+  compressedBody?: Uint8Array;
+  // 压缩格式，与请求头中的 Content-Encoding 一致
+  encoding?: CompressionFormat;
+  // 请求头（beacon、image 等通道无法携带）
+  headers: Record<string, string>;
+  // 本次发送的原始指标数据
+  metrics: MetricData[];
+  // 批次被拆分时的分片信息
+  batch?: BatchInfo;
+  // 拆分时使用的大小限制（配置优先于通道默认值），未设置时不限制
+  maxSize?: number;
+}
+
+/**
+ * 拆分批次的分片信息，服务端据此判断批次是否完整到达
+ */
+export interface BatchInfo {
+  // 批次ID，同一批次的分片相同
+  id: string;
+  // 分片序号，从 0 开始
+  seq: number;
+  // 分片总数
+  total: number;
+}
+
+/**
+ * 上报通道接口
+ */
+export interface Transport {
+  // 通道名称，用于在配置中引用
+  name: string;
+  // 单次请求的最大字节数，未设置时不拆分
+  maxPayloadSize?: number;
+  // 计算数据在该通道中实际占用的大小，用于与 maxPayloadSize 比较，默认为 UTF-8 字节数
+  measurePayload?: (body: string) => number;
+  // 当前环境是否可用
+  isSupported: () => boolean;
+  // 发送数据，失败时应 reject 以便降级到下一个通道
+  send: (payload: TransportPayload) => Promise<void>;
+}
+
+/**
+ * source map 发布清单，按 appVersion 记录构建产物与 source map 的对应关系
+ */
+export interface SourceMapManifest {
+  // 清单格式版本
+  version: 1;
+  // 应用版本，对应 MoniterConfig.appVersion
+  appVersion: string;
+  // 生成时间
+  createdAt: string;
+  // 构建产物列表
+  files: SourceMapManifestEntry[];
+}
+
+/**
+ * 发布清单中的单个构建产物
+ */
+export interface SourceMapManifestEntry {
+  // 构建产物相对构建目录的路径
+  file: string;
+  // source map 相对构建目录的路径
+  map: string;
+  // 构建时注入的 debug id
+  debugId?: string;
+}
@@ -0,0 +1,91 @@
+import { ComponentPublicInstance } from 'vue';
+
+const ROOT_NAME = '<Root>';
+const ANONYMOUS_NAME = '<Anonymous>';
+// 组件链最多记录的层数
+const MAX_TRACE_DEPTH = 10;
+
+// 生产环境下 info 为错误码地址，如 https://vuejs.org/error-reference/#runtime-m
+const ERROR_REFERENCE = /#runtime-([\w-]+)$/;
+
+// 生命周期钩子的错误码
+const LIFECYCLE_HOOKS: Record<string, string> = {
+  bc: 'beforeCreate hook',
+  c: 'created hook',
+  bm: 'beforeMount hook',
+  m: 'mounted hook',
+  bu: 'beforeUpdate hook',
+  u: 'updated hook',
+  bum: 'beforeUnmount hook',
+  um: 'unmounted hook',
+  a: 'activated hook',
+  da: 'deactivated hook',
+  ec: 'errorCaptured hook',
+  rtc: 'renderTracked hook',
+  rtg: 'renderTriggered hook',
+  sp: 'serverPrefetch hook'
+};
+
+// 其余位置的错误码，与 Vue 的 ErrorCodes 对应
+const ERROR_SOURCES = [
+  'setup function',
+  'render function',
+  'watcher getter',
+  'watcher callback',
+  'watcher cleanup function',
+  'native event handler',
+  'component event handler',
+  'vnode hook',
+  'directive hook',
+  'transition hook',
+  'app errorHandler',
+  'app warnHandler',
+  'ref function',
+  'async component loader',
+  'scheduler flush',
+  'component update',
+  'app unmount cleanup function'
+];
+
+/**
+ * 获取组件名称：name 选项、<script setup> 推断的名称或文件名，都没有时区分根组件与匿名组件
+ */
+export function getComponentName(instance: ComponentPublicInstance | null | undefined): string {
+  if (!instance) {
+    return ANONYMOUS_NAME;
+  }
+  const options = instance.$options as { name?: string; __name?: string; __file?: string };
+  if (options.name || options.__name) {
+    return (options.name || options.__name)!;
+  }
+  const file = options.__file && options.__file.match(/([^/\\]+)\.vue$/);
+  if (file) {
+    return file[1];
+  }
+  return instance.$root === instance ? ROOT_NAME : ANONYMOUS_NAME;
+}
+
+/**
+ * 获取从当前组件到根组件的组件链，如 ['Checkout', 'Layout', '<Root>']
+ */
+export function getComponentTrace(instance: ComponentPublicInstance | null | undefined): string[] {
+  const trace: string[] = [];
+  let current = instance;
+  while (current && trace.length < MAX_TRACE_DEPTH) {
+    trace.push(getComponentName(current));
+    current = current.$parent;
+  }
+  return trace;
+}
+
+/**
+ * 将 errorHandler 的 info 转换为可读的出错位置，开发环境的 info 本身可读，直接返回
+ */
+export function describeLifecycleHook(info: string): string {
+  const match = info.match(ERROR_REFERENCE);
+  if (!match) {
+    return info;
+  }
+  const code = match[1];
+  return LIFECYCLE_HOOKS[code] || ERROR_SOURCES[Number(code)] || info;
+}
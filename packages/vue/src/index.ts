@@ -0,0 +1,155 @@
+import { App, AppConfig, ComponentPublicInstance } from 'vue';
+import { IWebMoniter } from '@senmu/types';
+import defaultMoniter from '@senmu/web-moniter';
+import { getComponentName, getComponentTrace, describeLifecycleHook } from './component';
+import { DEFAULT_SCRUB_FIELDS, FieldPattern, scrubProps } from './scrub';
+import { RouterLike, trackRouter } from './router';
+
+/**
+ * Vue 集成配置
+ */
+export interface MoniterVueOptions {
+  // 监控实例，默认为 @senmu/web-moniter 的默认实例
+  moniter?: IWebMoniter;
+  // vue-router 实例，设置后在每次导航完成后上报页面访问
+  router?: RouterLike;
+  // 是否上报首次导航，默认 true
+  trackInitialRoute?: boolean;
+  // 是否转发 Vue 警告（Vue 只在开发环境调用 warnHandler），默认 true
+  captureWarnings?: boolean;
+  // 是否附带脱敏后的组件 props，默认 true
+  attachProps?: boolean;
+  // 额外需要脱敏的 props 字段，与内置字段合并
+  scrubFields?: FieldPattern[];
+  // 设置 errorHandler 后 Vue 不再打印错误，是否仍在控制台打印，默认 true
+  logErrors?: boolean;
+  // 错误分类，默认 vue
+  category?: string;
+}
+
+/**
+ * Vue 插件：转发 app.config.errorHandler 与 warnHandler 到监控实例，并追踪 vue-router 导航
+ * Vue 捕获的组件错误不会触发 window 的 error 事件，需要通过 errorHandler 上报
+ */
+export class MoniterVuePlugin {
+  private options: MoniterVueOptions;
+  private app: App | null = null;
+  private previousErrorHandler: AppConfig['errorHandler'];
+  private previousWarnHandler: AppConfig['warnHandler'];
+  private removeRouterGuard: (() => void) | null = null;
+
+  constructor(options: MoniterVueOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * 由 app.use 调用
+   */
+  install(app: App) {
+    if (this.app) {
+      console.warn('[web-moniter] Vue 插件已经安装，请勿重复调用 app.use');
+      return;
+    }
+    this.app = app;
+    const { router, trackInitialRoute, captureWarnings = true, logErrors = true } = this.options;
+
+    this.previousErrorHandler = app.config.errorHandler;
+    app.config.errorHandler = (err, instance, info) => {
+      this.handleError(err, instance, info);
+      if (this.previousErrorHandler) {
+        this.previousErrorHandler(err, instance, info);
+      } else if (logErrors) {
+        console.error(err);
+      }
+    };
+
+    if (captureWarnings) {
+      this.previousWarnHandler = app.config.warnHandler;
+      app.config.warnHandler = (msg, instance, trace) => {
+        this.handleWarning(msg, instance, trace);
+        if (this.previousWarnHandler) {
+          this.previousWarnHandler(msg, instance, trace);
+        } else if (logErrors) {
+          console.warn(`[Vue warn]: ${msg}${trace}`);
+        }
+      };
+    }
+
+    if (router) {
+      this.removeRouterGuard = trackRouter(router, this.getMoniter(), { trackInitial: trackInitialRoute });
+    }
+  }
+
+  /**
+   * 恢复原有的 errorHandler 与 warnHandler，并停止追踪路由
+   */
+  destroy() {
+    if (!this.app) {
+      return;
+    }
+    this.app.config.errorHandler = this.previousErrorHandler;
+    if (this.options.captureWarnings !== false) {
+      this.app.config.warnHandler = this.previousWarnHandler;
+    }
+    this.removeRouterGuard?.();
+    this.removeRouterGuard = null;
+    this.app = null;
+  }
+
+  /**
+   * 上报 Vue 捕获的错误
+   * @private
+   */
+  private handleError(err: unknown, instance: ComponentPublicInstance | null, info: string) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    this.getMoniter().addError(error, {
+      category: this.options.category || 'vue',
+      tags: {
+        ...this.getComponentTags(instance),
+        lifecycleHook: describeLifecycleHook(info)
+      },
+      contexts: { vue: { componentTrace: getComponentTrace(instance) } }
+    });
+  }
+
+  /**
+   * 以 warning 级别上报 Vue 警告
+   * @private
+   */
+  private handleWarning(msg: string, instance: ComponentPublicInstance | null, trace: string) {
+    const warning = new Error(msg);
+    warning.name = 'VueWarning';
+    this.getMoniter().addError(warning, {
+      category: this.options.category || 'vue',
+      level: 'warning',
+      tags: this.getComponentTags(instance),
+      contexts: { vue: { componentTrace: trace.trim() } }
+    });
+  }
+
+  private getComponentTags(instance: ComponentPublicInstance | null): Record<string, any> {
+    const tags: Record<string, any> = { component: getComponentName(instance) };
+    if (instance && this.options.attachProps !== false) {
+      const fields = [...DEFAULT_SCRUB_FIELDS, ...(this.options.scrubFields || [])];
+      tags.props = scrubProps(instance.$props as Record<string, unknown>, fields);
+    }
+    return tags;
+  }
+
+  private getMoniter(): IWebMoniter {
+    return this.options.moniter || defaultMoniter;
+  }
+}
+
+/**
+ * 创建 Vue 插件
+ */
+export function createMoniterVue(options?: MoniterVueOptions): MoniterVuePlugin {
+  return new MoniterVuePlugin(options);
+}
+
+export { getComponentName, getComponentTrace, describeLifecycleHook } from './component';
+export { DEFAULT_SCRUB_FIELDS, scrubProps } from './scrub';
+export { trackRouter, createPVMetric } from './router';
+export type { FieldPattern } from './scrub';
+export type { RouteLocationLike, RouterLike, RouterTrackingOptions } from './router';
@@ -0,0 +1,72 @@
+import { nextTick } from 'vue';
+import { IWebMoniter, MetricType, PVMetric } from '@senmu/types';
+
+/**
+ * vue-router 路由信息中用到的字段
+ */
+export interface RouteLocationLike {
+  path: string;
+  fullPath: string;
+  name?: string | symbol | null;
+  params: Record<string, any>;
+}
+
+/**
+ * vue-router 实例中用到的方法，避免直接依赖 vue-router
+ */
+export interface RouterLike {
+  afterEach(guard: (to: RouteLocationLike, from: RouteLocationLike, failure?: unknown) => any): () => void;
+}
+
+export interface RouterTrackingOptions {
+  // 是否上报首次导航，默认 true
+  trackInitial?: boolean;
+}
+
+/**
+ * 根据路由信息创建页面访问数据，project 等公共字段由 tracker 补全
+ */
+export function createPVMetric(to: RouteLocationLike, referrer?: string): PVMetric {
+  const metric: PVMetric = {
+    type: MetricType.PV,
+    project: '',
+    timestamp: Date.now(),
+    pageUrl: window.location.href,
+    title: document.title,
+    path: to.path,
+    referrer,
+    routeParams: { ...to.params }
+  };
+  if (to.name !== undefined && to.name !== null) {
+    metric.routeName = String(to.name);
+  }
+  return metric;
+}
+
+/**
+ * 在 vue-router 每次成功导航后上报页面访问，返回取消追踪的函数
+ * 上报延迟到 nextTick，以便读取到页面组件设置后的标题与地址
+ */
+export function trackRouter(router: RouterLike, moniter: IWebMoniter, options: RouterTrackingOptions = {}): () => void {
+  const { trackInitial = true } = options;
+  // 来源页面地址，首次导航使用 document.referrer
+  let previousUrl: string | undefined = document.referrer || undefined;
+  let initialized = false;
+
+  return router.afterEach((to, _from, failure) => {
+    // 被守卫取消、中断或重复的导航不上报
+    if (failure) {
+      return;
+    }
+    const isInitial = !initialized;
+    initialized = true;
+
+    nextTick(() => {
+      const referrer = previousUrl;
+      previousUrl = window.location.href;
+      if (!isInitial || trackInitial) {
+        moniter.send(createPVMetric(to, referrer));
+      }
+    });
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * 字段名匹配规则，字符串按不区分大小写的包含匹配
+ */
+export type FieldPattern = string | RegExp;
+
+// 默认脱敏的字段
+export const DEFAULT_SCRUB_FIELDS: FieldPattern[] = [
+  'password',
+  'passwd',
+  'secret',
+  'token',
+  'auth',
+  'cookie',
+  'session',
+  'credential',
+  /card|cvv|ssn/i
+];
+
+export const FILTERED = '[Filtered]';
+// 字符串值的最大长度
+const MAX_STRING_LENGTH = 200;
+// 最多记录的 prop 数量
+const MAX_PROPS = 50;
+
+function matchesField(key: string, fields: FieldPattern[]): boolean {
+  const lowerKey = key.toLowerCase();
+  return fields.some(field =>
+    typeof field === 'string' ? lowerKey.includes(field.toLowerCase()) : field.test(key)
+  );
+}
+
+/**
+ * 将 prop 值转换为可上报的简短描述，对象与数组只记录类型，避免上报大量业务数据
+ */
+function summarize(value: unknown): unknown {
+  if (value === null || value === undefined || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}...` : value;
+  }
+  if (typeof value === 'function') {
+    return `[function ${value.name || 'anonymous'}]`;
+  }
+  if (Array.isArray(value)) {
+    return `[Array(${value.length})]`;
+  }
+  if (typeof value === 'object') {
+    const ctor = (value as object).constructor;
+    return `[${ctor && ctor.name ? ctor.name : 'Object'}]`;
+  }
+  return String(value);
+}
+
+/**
+ * 脱敏组件 props：匹配字段替换为 [Filtered]，其余值转换为简短描述
+ */
+export function scrubProps(props: Record<string, unknown> | null | undefined, fields: FieldPattern[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (!props) {
+    return result;
+  }
+  Object.keys(props).slice(0, MAX_PROPS).forEach(key => {
+    result[key] = matchesField(key, fields) ? FILTERED : summarize(props[key]);
+  });
+  return result;
+}
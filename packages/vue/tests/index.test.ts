@@ -0,0 +1,208 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createApp, defineComponent, h, nextTick, App } from 'vue';
+import { createRouter, createMemoryHistory } from 'vue-router';
+import { IWebMoniter, MetricType } from '@senmu/types';
+import { createMoniterVue, describeLifecycleHook, getComponentTrace } from '../src';
+
+vi.mock('@senmu/web-moniter', () => ({
+  default: { addError: vi.fn(), send: vi.fn() }
+}));
+
+const createMockMoniter = () => ({
+  addError: vi.fn(),
+  send: vi.fn()
+}) as unknown as IWebMoniter & { addError: ReturnType<typeof vi.fn>; send: ReturnType<typeof vi.fn> };
+
+describe('@senmu/vue', () => {
+  let moniter: ReturnType<typeof createMockMoniter>;
+  let container: HTMLDivElement;
+  let app: App | null;
+
+  beforeEach(() => {
+    moniter = createMockMoniter();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    app = null;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    app?.unmount();
+    container.remove();
+    vi.restoreAllMocks();
+  });
+
+  const Checkout = defineComponent({
+    name: 'Checkout',
+    props: { orderId: String, password: String, items: Array },
+    mounted() {
+      throw new Error('挂载失败');
+    },
+    render: () => h('div')
+  });
+
+  describe('errorHandler', () => {
+    it('应该附带组件名称、脱敏后的 props 与生命周期上报错误', () => {
+      app = createApp({ render: () => h(Checkout, { orderId: 'o-1', password: 'secret', items: [1, 2] }) });
+      app.use(createMoniterVue({ moniter }));
+      app.mount(container);
+
+      expect(moniter.addError).toHaveBeenCalledTimes(1);
+      const [error, options] = moniter.addError.mock.calls[0];
+      expect(error.message).toBe('挂载失败');
+      expect(options).toEqual({
+        category: 'vue',
+        tags: {
+          component: 'Checkout',
+          props: { orderId: 'o-1', password: '[Filtered]', items: '[Array(2)]' },
+          lifecycleHook: 'mounted hook'
+        },
+        contexts: { vue: { componentTrace: ['Checkout', '<Root>'] } }
+      });
+      expect(console.error).toHaveBeenCalledWith(error);
+    });
+
+    it('应该调用原有的 errorHandler 而不是打印到控制台', () => {
+      const previous = vi.fn();
+      app = createApp({ render: () => h(Checkout) });
+      app.config.errorHandler = previous;
+      app.use(createMoniterVue({ moniter, logErrors: false }));
+      app.mount(container);
+
+      expect(moniter.addError).toHaveBeenCalledTimes(1);
+      expect(previous).toHaveBeenCalledWith(expect.any(Error), expect.anything(), 'mounted hook');
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it('attachProps 为 false 时不应该附带 props，并支持自定义脱敏字段', () => {
+      app = createApp({ render: () => h(Checkout, { orderId: 'o-1' }) });
+      app.use(createMoniterVue({ moniter, attachProps: false }));
+      app.mount(container);
+      expect(moniter.addError.mock.calls[0][1].tags).not.toHaveProperty('props');
+
+      app.unmount();
+      moniter.addError.mockClear();
+      app = createApp({ render: () => h(Checkout, { orderId: 'o-1' }) });
+      app.use(createMoniterVue({ moniter, scrubFields: ['orderId'] }));
+      app.mount(container);
+      expect(moniter.addError.mock.calls[0][1].tags.props.orderId).toBe('[Filtered]');
+    });
+
+    it('未设置 moniter 时应该使用默认实例', async () => {
+      const { default: defaultMoniter } = await import('@senmu/web-moniter');
+      app = createApp({ render: () => h(Checkout) });
+      app.use(createMoniterVue());
+      app.mount(container);
+
+      expect(defaultMoniter.addError).toHaveBeenCalledTimes(1);
+    });
+
+    it('destroy 后应该恢复原有的处理函数', () => {
+      const previous = vi.fn();
+      const plugin = createMoniterVue({ moniter });
+      app = createApp({ render: () => h('div') });
+      app.config.errorHandler = previous;
+      app.use(plugin);
+      app.mount(container);
+      expect(app.config.errorHandler).not.toBe(previous);
+
+      plugin.destroy();
+
+      expect(app.config.errorHandler).toBe(previous);
+      expect(app.config.warnHandler).toBeUndefined();
+    });
+  });
+
+  describe('warnHandler', () => {
+    it('应该以 warning 级别上报 Vue 警告', () => {
+      const Child = defineComponent({
+        name: 'Child',
+        render() {
+          // 访问未定义的属性会触发警告
+          return h('span', String((this as any).missing));
+        }
+      });
+      app = createApp({ render: () => h(Child) });
+      app.use(createMoniterVue({ moniter }));
+      app.mount(container);
+
+      const [warning, options] = moniter.addError.mock.calls[0];
+      expect(warning.name).toBe('VueWarning');
+      expect(warning.message).toContain('Property "missing" was accessed during render');
+      expect(options).toMatchObject({ category: 'vue', level: 'warning', tags: { component: 'Child' } });
+      expect(options.contexts.vue.componentTrace).toContain('<Child>');
+      expect(console.warn).toHaveBeenCalled();
+    });
+
+    it('captureWarnings 为 false 时不应该接管 warnHandler', () => {
+      app = createApp({ render: () => h('div') });
+      app.use(createMoniterVue({ moniter, captureWarnings: false }));
+      app.mount(container);
+
+      expect(app.config.warnHandler).toBeUndefined();
+    });
+  });
+
+  describe('vue-router', () => {
+    const createTestRouter = () => createRouter({
+      history: createMemoryHistory(),
+      routes: [
+        { path: '/', name: 'home', component: { render: () => null } },
+        { path: '/user/:id', name: 'user', component: { render: () => null } }
+      ]
+    });
+
+    it('应该在每次导航后上报带路由名称与参数的页面访问', async () => {
+      const router = createTestRouter();
+      app = createApp({ render: () => null });
+      app.use(createMoniterVue({ moniter, router }));
+      app.use(router);
+      app.mount(container);
+
+      await router.push('/');
+      await nextTick();
+      await router.push('/user/42');
+      await nextTick();
+
+      expect(moniter.send).toHaveBeenCalledTimes(2);
+      expect(moniter.send.mock.calls[0][0]).toMatchObject({ type: MetricType.PV, path: '/', routeName: 'home', routeParams: {} });
+      expect(moniter.send.mock.calls[1][0]).toMatchObject({
+        type: MetricType.PV,
+        path: '/user/42',
+        routeName: 'user',
+        routeParams: { id: '42' }
+      });
+    });
+
+    it('被取消的导航与 trackInitialRoute 为 false 时的首次导航不应该上报', async () => {
+      const router = createTestRouter();
+      router.beforeEach(to => to.params.id !== 'blocked');
+      app = createApp({ render: () => null });
+      app.use(createMoniterVue({ moniter, router, trackInitialRoute: false }));
+      app.use(router);
+      app.mount(container);
+
+      await router.push('/');
+      await router.push('/user/blocked');
+      await nextTick();
+
+      expect(moniter.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('工具函数', () => {
+    it('应该把生产环境的错误码转换为可读的位置', () => {
+      expect(describeLifecycleHook('https://vuejs.org/error-reference/#runtime-m')).toBe('mounted hook');
+      expect(describeLifecycleHook('https://vuejs.org/error-reference/#runtime-1')).toBe('render function');
+      expect(describeLifecycleHook('setup function')).toBe('setup function');
+    });
+
+    it('没有组件实例时组件链应该为空', () => {
+      expect(getComponentTrace(null)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SCRUB_FIELDS, FILTERED, scrubProps } from '../src/scrub';
+
+describe('scrubProps', () => {
+  it('应该脱敏默认的敏感字段，不区分大小写', () => {
+    expect(scrubProps({
+      userPassword: '123456',
+      accessToken: 'abc',
+      creditCard: '6222',
+      title: '订单'
+    }, DEFAULT_SCRUB_FIELDS)).toEqual({
+      userPassword: FILTERED,
+      accessToken: FILTERED,
+      creditCard: FILTERED,
+      title: '订单'
+    });
+  });
+
+  it('应该支持自定义字段', () => {
+    expect(scrubProps({ phone: '13800000000', name: 'senmu' }, ['phone', /^na/])).toEqual({
+      phone: FILTERED,
+      name: FILTERED
+    });
+  });
+
+  it('对象、数组与函数只记录类型，长字符串截断', () => {
+    class Order {}
+    const result = scrubProps({
+      list: [1, 2, 3],
+      config: { a: 1 },
+      order: new Order(),
+      onClick: function handleClick() {},
+      text: 'a'.repeat(300),
+      count: 1,
+      visible: false,
+      empty: null
+    }, []);
+
+    expect(result).toEqual({
+      list: '[Array(3)]',
+      config: '[Object]',
+      order: '[Order]',
+      onClick: '[function handleClick]',
+      text: `${'a'.repeat(200)}...`,
+      count: 1,
+      visible: false,
+      empty: null
+    });
+  });
+
+  it('props 为空时应该返回空对象', () => {
+    expect(scrubProps(null, DEFAULT_SCRUB_FIELDS)).toEqual({});
+  });
+});
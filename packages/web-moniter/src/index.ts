@@ -1,4 +1,4 @@
-import { MoniterConfig, MetricData, Reporter, IWebMoniter } from '@senmu/types';
+import { MoniterConfig, MetricData, Reporter, IWebMoniter, BreadcrumbInput, UserInfo, AddErrorOptions, SessionInfo } from '@senmu/types';
 import { Tracker, createTracker } from '@senmu/core';
 import { createReporter } from '@senmu/reporter';
 
@@ -62,7 +62,7 @@ class WebMoniter implements IWebMoniter {
   /**
    * 添加错误信息
    */
-  addError(err: Error, opts?: { category?: string; level?: string }) {
+  addError(err: Error, opts?: AddErrorOptions) {
     if (!this.initialized) {
       console.error('[web-moniter] 必须先调用init初始化SDK');
       return;
@@ -71,6 +71,83 @@ class WebMoniter implements IWebMoniter {
     this.tracker.addError(err, opts);
   }
   
+  /**
+   * 添加用户行为记录
+   */
+  addBreadcrumb(breadcrumb: BreadcrumbInput) {
+    if (!this.initialized) {
+      console.error('[web-moniter] 必须先调用init初始化SDK');
+      return;
+    }
+    
+    this.tracker.addBreadcrumb(breadcrumb);
+  }
+  
+  /**
+   * 设置当前用户，传 null 清除（如退出登录）
+   */
+  setUser(user: UserInfo | null): WebMoniter {
+    if (!this.initialized) {
+      console.error('[web-moniter] 必须先调用init初始化SDK');
+      return this;
+    }
+    
+    this.tracker.setUser(user);
+    return this;
+  }
+  
+  /**
+   * 设置单个全局标签，值为 undefined 时移除
+   */
+  setTag(key: string, value: any): WebMoniter {
+    if (!this.initialized) {
+      console.error('[web-moniter] 必须先调用init初始化SDK');
+      return this;
+    }
+    
+    this.tracker.setTag(key, value);
+    return this;
+  }
+  
+  /**
+   * 批量设置全局标签
+   */
+  setTags(tags: Record<string, any>): WebMoniter {
+    if (!this.initialized) {
+      console.error('[web-moniter] 必须先调用init初始化SDK');
+      return this;
+    }
+    
+    this.tracker.setTags(tags);
+    return this;
+  }
+  
+  /**
+   * 设置命名上下文，传 null 移除
+   */
+  setContext(name: string, context: Record<string, any> | null): WebMoniter {
+    if (!this.initialized) {
+      console.error('[web-moniter] 必须先调用init初始化SDK');
+      return this;
+    }
+    
+    this.tracker.setContext(name, context);
+    return this;
+  }
+  
+  /**
+   * 清除用户、标签与上下文
+   */
+  clearScope(): WebMoniter {
+    if (!this.initialized) {
+      console.error('[web-moniter] 必须先调用init初始化SDK');
+      return this;
+    }
+    
+    this.tracker.clearScope();
+    return this;
+  }
+  
   /**
    * 设置配置
    */
@@ -95,17 +172,30 @@ class WebMoniter implements IWebMoniter {
     
     this.tracker.send(metric, reportNow);
   }
+
+  /**
+   * 记录一次用户活跃，延长当前会话
+   * addError、send 等调用也来自框架集成的自动上报，不会延长会话，需要由业务在真实的用户操作中调用
+   */
+  touchSession(): SessionInfo | undefined {
+    if (!this.initialized) {
+      console.error('[web-moniter] 必须先调用init初始化SDK');
+      return undefined;
+    }
+    
+    return this.tracker.touchSession();
+  }
   
   /**
    * 立即上报所有缓存数据
    */
-  flush() {
+  flush(): Promise<void> {
     if (!this.initialized) {
       console.error('[web-moniter] 必须先调用init初始化SDK');
-      return;
+      return Promise.resolve();
     }
     
-    this.tracker.flush();
+    return this.tracker.flush();
   }
   
   /**
@@ -11,6 +11,13 @@ const mockTracker = {
   setConfig: vi.fn().mockReturnThis(),
   getConfig: vi.fn().mockReturnValue({ project: 'test-project' }),
   addError: vi.fn(),
+  addBreadcrumb: vi.fn(),
+  setUser: vi.fn(),
+  setTag: vi.fn(),
+  setTags: vi.fn(),
+  setContext: vi.fn(),
+  clearScope: vi.fn(),
+  touchSession: vi.fn(),
   send: vi.fn(),
   flush: vi.fn(),
   destroy: vi.fn()
@@ -154,6 +161,48 @@ describe('WebMoniter', () => {
       expect(mockTracker.addError).toHaveBeenCalledWith(error, options);
     });
     
+    it('应该能添加用户行为记录', () => {
+      const breadcrumb = { type: 'custom', message: '点击支付' };
+      
+      moniter.addBreadcrumb(breadcrumb);
+      
+      expect(mockTracker.addBreadcrumb).toHaveBeenCalledWith(breadcrumb);
+    });
+    
+    it('上报数据不应该延长会话，只有 touchSession 会延长', () => {
+      moniter.addError(new Error('测试错误'));
+      moniter.addBreadcrumb({ type: 'custom', message: '点击支付' });
+      moniter.send({
+        type: MetricType.CUSTOM,
+        name: 'custom',
+        value: 1,
+        timestamp: Date.now(),
+        project: 'test-project',
+        pageUrl: 'https://test.com'
+      });
+      
+      // 框架集成会自动调用这些接口，不能视为用户活跃
+      expect(mockTracker.touchSession).not.toHaveBeenCalled();
+      
+      moniter.touchSession();
+      expect(mockTracker.touchSession).toHaveBeenCalledTimes(1);
+    });
+    
+    it('应该能设置用户、标签与上下文', () => {
+      moniter
+        .setUser({ id: 'u-1' })
+        .setTag('env', 'prod')
+        .setTags({ region: 'cn' })
+        .setContext('order', { id: 'o-1' })
+        .clearScope();
+      
+      expect(mockTracker.setUser).toHaveBeenCalledWith({ id: 'u-1' });
+      expect(mockTracker.setTag).toHaveBeenCalledWith('env', 'prod');
+      expect(mockTracker.setTags).toHaveBeenCalledWith({ region: 'cn' });
+      expect(mockTracker.setContext).toHaveBeenCalledWith('order', { id: 'o-1' });
+      expect(mockTracker.clearScope).toHaveBeenCalled();
+    });
+    
     it('未初始化时不应添加错误', () => {
       // 重置实例
       moniter.destroy();